@@ -0,0 +1,124 @@
+import { BaseStore, BaseStoreOptions, StoreSource, StorageWatcher } from "./BaseStore";
+import { Store } from "./Store";
+import { _Object } from "./utils";
+
+export interface AsyncStorageLike {
+    getItem(key: string): Promise<string | null>;
+    setItem(key: string, value: string): Promise<void>;
+    removeItem?(key: string): Promise<void>;
+    watch?(key: string, watcher: StorageWatcher): () => void;
+}
+
+export interface AsyncStoreOptions<T> extends BaseStoreOptions<T, AsyncStore<T>> {
+    storage?: AsyncStorageLike | null;
+}
+
+export class AsyncStore<T = unknown> extends BaseStore<T> implements Required<AsyncStoreOptions<T>> {
+
+    static defaults: AsyncStoreOptions<any> = _Object.assign({}, Store.defaults as AsyncStoreOptions<any>, {
+        storage: null,
+    });
+
+    constructor(name: string, options?: AsyncStoreOptions<T>) {
+        super(name, AsyncStore.defaults, options);
+        if (!this.lazyLoad) {
+            this.load().catch(() => { });
+        }
+        if (this.sync) {
+            this._watch();
+        }
+    }
+
+    storage!: AsyncStorageLike | null;
+
+    private _ready: Promise<boolean> | null = null;
+    get ready() {
+        return this._ready || this.load();
+    }
+
+    private _saving: Promise<unknown> = Promise.resolve();
+
+    private _watch() {
+        const { storage, name } = this;
+        if (storage && storage.watch) {
+            this._unwatch = storage.watch(name, () => {
+                storage.getItem(name).then(source => {
+                    if (source !== this._oldSource) {
+                        if (this._hasUnsavedChanges()) {
+                            this._receiveConflict(source, this._oldSource);
+                        } else {
+                            this._load(source);
+                        }
+                    }
+                }).catch(() => { });
+            });
+        }
+    }
+
+    save() {
+        this._clearSaveTimer();
+        const { storage } = this;
+        if (!storage) {
+            return Promise.resolve(false);
+        }
+        const saving = this._saving.then(() => (
+            this.secure ? this.checkConflict() : false
+        )).then(conflicted => {
+            if (conflicted) {
+                return false;
+            }
+            this._callPlugins('beforeSave', this);
+            const oldSource = this._oldSource;
+            return storage.setItem(this.name, this._oldSource = this._stringify())
+                .then(() => true, error => {
+                    this._oldSource = oldSource;
+                    this._saveError(error);
+                    return false;
+                })
+                .then(saved => {
+                    this._callPlugins('afterSave', this, saved);
+                    return saved;
+                });
+        });
+        this._saving = saving.catch(() => { });
+        return saving;
+    }
+
+    remove() {
+        this._clearSaveTimer();
+        const { storage } = this;
+        if (storage && storage.removeItem) {
+            this._oldSource = null;
+            return storage.removeItem(this.name).then(() => true);
+        }
+        return Promise.resolve(false);
+    }
+
+    load(source?: StoreSource) {
+        const { storage } = this;
+        let loading: Promise<boolean>;
+        if (source !== undefined) {
+            loading = Promise.resolve().then(() => this._load(source!));
+        } else if (storage) {
+            loading = storage.getItem(this.name).then(source => this._load(source));
+        } else {
+            loading = Promise.resolve(false);
+        }
+        if (!this._ready) {
+            this._ready = loading;
+        }
+        return loading;
+    }
+
+    checkConflict() {
+        const { storage } = this;
+        if (!storage) {
+            return Promise.resolve(false);
+        }
+        return storage.getItem(this.name).then(newSource => (
+            newSource !== this._oldSource &&
+            !this._conflict(newSource, this._oldSource)
+        ));
+    }
+
+}
@@ -0,0 +1,1218 @@
+import { Type, getTypeByPath, ValidatingResult, ValidationError } from "./types";
+import {
+    _getByPath, _parsePath, _setByPath, _Object, _clone, _deleteByPath, _testTypePath, _testPath,
+    _isEnvelope, ENVELOPE_VERSION, ENVELOPE_VALUE, ENVELOPE_EXPIRATIONS, ENVELOPE_HISTORY, _copy, _isEqual,
+    _isPathPrefix, _getErrors, _createValidatingResult, _createError, _normalize,
+    _freeze, _setIn, _deleteIn, _isPlainObject, _testParentPath, COMPUTED_KEY,
+} from "./utils";
+import { inferType } from "./inferType";
+import { threeWayMerge } from "./threeWayMerge";
+import { Serializer } from "./serializers";
+import { SourceTransform } from "./transforms";
+import { Store } from "./Store";
+
+export type StoreSource = string | null;
+
+const ARRAY_MUTATORS = ['copyWithin', 'fill', 'pop', 'push', 'reverse', 'shift', 'sort', 'splice', 'unshift'];
+
+type StorePathStep<T, K extends string> =
+    T extends unknown ?
+        K extends keyof T ? T[K] :
+        T extends readonly (infer E)[] ? K extends `${number}` ? E : unknown :
+        T extends object ? never : undefined :
+    never;
+
+export type StorePathValue<T, P extends string> =
+    0 extends (1 & T) ? any :
+    unknown extends T ? unknown :
+    string extends P ? unknown :
+    P extends `$computed.${string}` ? unknown :
+    P extends `${infer K}.${infer R}` ? StorePathValue<StorePathStep<T, K>, R> :
+    StorePathStep<T, P>;
+
+export type StoreInvalidCallback<T, S = Store<T>> =
+    (this: S, paths: string[][], errors: ValidationError[]) => void;
+export type StoreConflictCallback<T, S = Store<T>> =
+    (this: S, newSource: StoreSource, oldSource: StoreSource) => void;
+export type StoreMergeStrategy = 'ours' | 'theirs' | 'merge';
+export type StoreMergeConflictCallback<T, S = Store<T>> = (this: S, paths: string[][]) => void;
+export type StoreUpdateCallback<T, S = Store<any>> = (this: S, value: T) => T;
+export type StoreListener<T, V = unknown, S = Store<T>> = (this: S, newValue: V, oldValue: V) => void;
+export type StoreSaveErrorCallback<T, S = Store<T>> = (this: S, error: unknown) => void;
+export type StoreMigration<T, S = Store<T>> = (this: S, value: any) => unknown;
+export type StoreMigrationFailedCallback<T, S = Store<T>> =
+    (this: S, version: number, error: unknown, source: string) => void;
+
+interface StoreSubscription {
+    path: string[];
+    listener: StoreListener<unknown, unknown, any>;
+    oldValue: unknown;
+}
+
+export interface StoreSetOptions {
+    ttl?: number;
+}
+
+export interface StoreSetContext {
+    path: string[];
+    value: unknown;
+    oldValue: unknown;
+}
+
+export interface StorePlugin<S = Store<any>> {
+    beforeSet?(store: S, context: StoreSetContext): boolean | void;
+    afterSet?(store: S, context: StoreSetContext): void;
+    beforeSave?(store: S): void;
+    afterSave?(store: S, saved: boolean): void;
+    afterLoad?(store: S, loaded: boolean): void;
+    onReset?(store: S, path: string[]): void;
+}
+
+type StorePluginHook = Exclude<keyof StorePlugin, 'beforeSet'>;
+
+export type StoreArrayMergeStrategy = 'replace' | 'concat';
+
+export interface StoreMergeOptions extends StoreSetOptions {
+    arrays?: StoreArrayMergeStrategy;
+}
+
+interface StoreMigratingResult {
+    value: unknown;
+    migrated: boolean;
+    envelope: any;
+}
+
+export type StoreExpiration = [string[], number];
+
+interface StoreListChange {
+    list: unknown[];
+    start: number;
+    items: unknown[];
+}
+
+export interface StoreHistoryOptions {
+    maxDepth?: number;
+    groupDelay?: number;
+    persist?: boolean;
+}
+
+export interface StorePatch {
+    path: string[];
+    oldValue: unknown;
+    newValue: unknown;
+}
+
+export interface StoreHistoryEntry {
+    patches: StorePatch[];
+    time: number;
+}
+
+interface StoreHistory {
+    undo: StoreHistoryEntry[];
+    redo: StoreHistoryEntry[];
+}
+
+export interface StoreDerivation<V> {
+    readonly name: string | null;
+    readonly paths: string[][];
+    get(): V;
+    dispose(): void;
+}
+
+interface StoreDerivationRecord {
+    name: string | null;
+    paths: string[][];
+    compute: () => unknown;
+    value: unknown;
+    dirty: boolean;
+    computing: boolean;
+}
+
+export type StorageWatcher = (source: StoreSource) => void;
+
+export interface BaseStoreOptions<T, S = Store<T>> {
+    defaultValue?: T | null;
+    type?: Type<T> | null;
+    delay?: number;
+    lazyLoad?: boolean;
+    sync?: boolean;
+    strictLoad?: boolean;
+    secure?: boolean;
+    autoFix?: boolean;
+    onInvalid?: StoreInvalidCallback<T, S> | null;
+    onConflict?: StoreConflictCallback<T, S> | null;
+    mergeStrategy?: StoreMergeStrategy | null;
+    onMergeConflict?: StoreMergeConflictCallback<T, S> | null;
+    pathSeparator?: string;
+    version?: number;
+    migrations?: StoreMigration<T, S>[];
+    onMigrationFailed?: StoreMigrationFailedCallback<T, S> | null;
+    onSaveError?: StoreSaveErrorCallback<T, S> | null;
+    ttl?: number;
+    serializer?: Serializer;
+    transforms?: SourceTransform[];
+    history?: StoreHistoryOptions | boolean | null;
+    immutable?: boolean;
+    plugins?: StorePlugin<S>[];
+}
+
+export abstract class BaseStore<T = unknown> implements Required<BaseStoreOptions<T, any>> {
+
+    static historyDefaults: Required<StoreHistoryOptions> = {
+        maxDepth: 100,
+        groupDelay: 0,
+        persist: false,
+    };
+
+    constructor(public name: string, defaults: BaseStoreOptions<any, any>, options?: BaseStoreOptions<T, any>) {
+        this.save = this.save.bind(this);
+        _Object.assign(this, defaults, options);
+        if (options) {
+            const hasDefaultValue = 'defaultValue' in options;
+            if ('type' in options) {
+                if (!hasDefaultValue) {
+                    this.defaultValue = this.type!.defaultValue;
+                }
+            } else if (hasDefaultValue) {
+                this.type = inferType(this.defaultValue) as Type<T>;
+            }
+        }
+    }
+
+    protected _value!: T;
+    protected _oldSource!: StoreSource;
+    defaultValue!: T | null;
+    type!: Type<T> | null;
+    delay!: number;
+    readonly lazyLoad!: boolean;
+    readonly sync!: boolean;
+    strictLoad!: boolean;
+    secure!: boolean;
+    autoFix!: boolean;
+    onInvalid!: StoreInvalidCallback<T, any> | null;
+    onConflict!: StoreConflictCallback<T, any> | null;
+    mergeStrategy!: StoreMergeStrategy | null;
+    onMergeConflict!: StoreMergeConflictCallback<T, any> | null;
+    pathSeparator!: string;
+    version!: number;
+    migrations!: StoreMigration<T, any>[];
+    onMigrationFailed!: StoreMigrationFailedCallback<T, any> | null;
+    onSaveError!: StoreSaveErrorCallback<T, any> | null;
+    ttl!: number;
+    serializer!: Serializer;
+    transforms!: SourceTransform[];
+    history!: StoreHistoryOptions | boolean | null;
+    readonly immutable!: boolean;
+    plugins!: StorePlugin<any>[];
+
+    protected _unwatch: (() => void) | null = null;
+
+    private _subscriptions: StoreSubscription[] = [];
+    private _notifying = false;
+
+    private _peek(path: string[]) {
+        if (path[0] === COMPUTED_KEY) {
+            const derivation = this._derivations.find(record => record.name === path[1]);
+            if (!derivation) {
+                return undefined;
+            }
+            const value = this._compute(derivation),
+                restPath = path.slice(2);
+            return _testPath(value, restPath) ? _getByPath(value, restPath) : undefined;
+        }
+        return _testPath(this._value, path) ? _getByPath(this._value, path) : undefined;
+    }
+
+    private _willChange() {
+        const subscriptions = this._subscriptions;
+        if (!this._notifying && subscriptions.length) {
+            this._notifying = true;
+            subscriptions.forEach(subscription => {
+                subscription.oldValue = this._snapshot(this._peek(subscription.path));
+            });
+            Promise.resolve().then(() => {
+                this._notify();
+            });
+        }
+    }
+
+    private _notify() {
+        this._notifying = false;
+        const subscriptions = this._subscriptions;
+        subscriptions.slice().forEach(subscription => {
+            const { oldValue } = subscription,
+                newValue = this._peek(subscription.path);
+            subscription.oldValue = undefined;
+            if (subscriptions.includes(subscription) && !_isEqual(newValue, oldValue)) {
+                subscription.listener.call(this, newValue, oldValue);
+            }
+        });
+    }
+
+    private _snapshot<V>(value: V) {
+        return this.immutable ? value : _copy(value);
+    }
+
+    protected _update(path: string[], value: unknown, recorded = true) {
+        if (recorded) {
+            this._record(path, this._peek(path), value);
+        }
+        this._willChange();
+        this._invalidate(path);
+        if (this.immutable) {
+            this._value = (
+                value === undefined && this._replaying && path.length ?
+                    _deleteIn(this._value, path) :
+                    _setIn(this._value, path, _freeze(value))
+            ) as T;
+        } else if (path.length) {
+            if (value === undefined && this._replaying) {
+                _deleteByPath(this._value, path);
+            } else {
+                _setByPath(this._value, path, value);
+            }
+        } else {
+            this._value = value as T;
+        }
+    }
+
+    private _history: StoreHistory = { undo: [], redo: [] };
+    private _historyEntry: StoreHistoryEntry | null = null;
+    private _replaying = false;
+
+    private _getHistoryOptions(): Required<StoreHistoryOptions> | null {
+        const { history } = this;
+        return history ?
+            _Object.assign({}, BaseStore.historyDefaults, history === true ? null : history) :
+            null;
+    }
+
+    private _record(path: string[], oldValue: unknown, newValue: unknown) {
+        const options = this._getHistoryOptions();
+        if (!options || this._replaying || _isEqual(oldValue, newValue)) {
+            return;
+        }
+        const { undo } = this._history,
+            patch: StorePatch = {
+                path,
+                oldValue: this._snapshot(oldValue),
+                newValue: this._snapshot(newValue),
+            },
+            now = Date.now(),
+            lastEntry = undo[undo.length - 1];
+        let entry = this._transacting ? this._historyEntry : null;
+        if (
+            !this._transacting && lastEntry && options.groupDelay > 0 &&
+            now - lastEntry.time < options.groupDelay
+        ) {
+            entry = lastEntry;
+        }
+        if (entry) {
+            entry.patches.push(patch);
+            entry.time = now;
+        } else {
+            entry = { patches: [patch], time: now };
+            undo.push(entry);
+            if (undo.length > options.maxDepth) {
+                undo.splice(0, undo.length - options.maxDepth);
+            }
+        }
+        if (this._transacting) {
+            this._historyEntry = entry;
+        }
+        this._history.redo = [];
+    }
+
+    private _replay(from: StoreHistoryEntry[], to: StoreHistoryEntry[], backward: boolean) {
+        const entry = from.pop();
+        if (!entry) {
+            return false;
+        }
+        const { patches } = entry;
+        this._replaying = true;
+        try {
+            (backward ? patches.slice().reverse() : patches).forEach(patch => {
+                this._update(patch.path, this._snapshot(backward ? patch.oldValue : patch.newValue));
+            });
+        } finally {
+            this._replaying = false;
+        }
+        to.push(entry);
+        this._save();
+        return true;
+    }
+
+    get canUndo() {
+        return this._history.undo.length > 0;
+    }
+
+    get canRedo() {
+        return this._history.redo.length > 0;
+    }
+
+    undo() {
+        const history = this._history;
+        return this._replay(history.undo, history.redo, true);
+    }
+
+    redo() {
+        const history = this._history;
+        return this._replay(history.redo, history.undo, false);
+    }
+
+    clearHistory() {
+        this._history = { undo: [], redo: [] };
+    }
+
+    protected _expirations: StoreExpiration[] = [];
+
+    private _setExpiration(path: string[], ttl: number) {
+        const expirations = this._expirations.filter(
+            expiration => !_isEqual(expiration[0], path)
+        );
+        if (ttl > 0) {
+            expirations.push([path, Date.now() + ttl]);
+        }
+        this._expirations = expirations;
+    }
+
+    private _expire() {
+        const now = Date.now(),
+            expiredPaths = new Array<string[]>();
+        this._expirations = this._expirations.filter(expiration => {
+            if (expiration[1] <= now) {
+                expiredPaths.push(expiration[0]);
+                return false;
+            }
+            return true;
+        });
+        if (expiredPaths.length) {
+            expiredPaths.forEach(path => {
+                this.reset(path);
+            });
+            this._save();
+        }
+    }
+
+    protected _getDefaultValue() {
+        const { defaultValue } = this;
+        return defaultValue && typeof defaultValue === 'object' ?
+            _clone(defaultValue) :
+            defaultValue;
+    }
+
+    private _invalid(result: ValidatingResult, prefix: string[] = []) {
+        const errors = _getErrors(result, prefix);
+        if (this.onInvalid) {
+            this.onInvalid(
+                result.valid ? [] : result.paths.map(path => prefix.concat(path)),
+                errors
+            );
+        } else if (!this.autoFix) {
+            const { pathSeparator } = this;
+            throw (
+                'Invalid value: ' +
+                errors.map(error => (error.path.join(pathSeparator) || '(root)') + ': ' + error.message)
+                    .join('; ')
+            );
+        }
+    }
+
+    protected _conflict(newSource: StoreSource, oldSource: StoreSource) {
+        if (this.mergeStrategy) {
+            return this._resolve(newSource, oldSource);
+        } else if (this.onConflict) {
+            this.onConflict(newSource, oldSource);
+            return false;
+        } else {
+            throw 'Sources conflicted';
+        }
+    }
+
+    private _resolve(newSource: StoreSource, oldSource: StoreSource) {
+        switch (this.mergeStrategy) {
+            case 'ours': {
+                this._oldSource = newSource;
+                return true;
+            }
+            case 'theirs': {
+                return this._load(newSource);
+            }
+            default: {
+                const baseResult = oldSource == null ? { value: this._getDefaultValue() } : this._migrate(oldSource),
+                    theirResult = newSource === null ? { value: this._getDefaultValue() } : this._migrate(newSource);
+                if (!baseResult || !theirResult) {
+                    return false;
+                }
+                const { type } = this,
+                    mergingResult = threeWayMerge(baseResult.value, this._value, theirResult.value, type);
+                if (mergingResult.conflicts.length && this.onMergeConflict) {
+                    this.onMergeConflict(mergingResult.conflicts);
+                }
+                const validatingResult = type && type.validate(mergingResult.value);
+                if (validatingResult && !validatingResult.valid) {
+                    this._invalid(validatingResult);
+                    return false;
+                }
+                this._update([], mergingResult.value, false);
+                this._oldSource = newSource;
+                return true;
+            }
+        }
+    }
+
+    private _migrationFailed(version: number, error: unknown, source: string) {
+        if (this.onMigrationFailed) {
+            this.onMigrationFailed(version, error, source);
+        } else {
+            throw 'Migration failed';
+        }
+    }
+
+    protected _saveError(error: unknown) {
+        if (this.onSaveError) {
+            this.onSaveError(error);
+        }
+    }
+
+    protected _access() { }
+
+    protected _callPlugins<K extends StorePluginHook>(
+        hook: K, ...args: Parameters<Required<StorePlugin<this>>[K]>
+    ) {
+        this.plugins.forEach(plugin => {
+            const callback = plugin[hook];
+            if (callback) {
+                (callback as Function).apply(plugin, args);
+            }
+        });
+    }
+
+    use(plugin: StorePlugin<this>) {
+        this.plugins = this.plugins.concat(plugin);
+        return () => {
+            this.plugins = this.plugins.filter(p => p !== plugin);
+        };
+    }
+
+    protected _encode(data: unknown) {
+        return this.transforms.reduce(
+            (result, transform) => transform.encode(result),
+            this.serializer.stringify(data)
+        );
+    }
+
+    protected _decode(source: string): unknown {
+        return this.serializer.parse(
+            this.transforms.reduceRight((result, transform) => transform.decode(result), source)
+        );
+    }
+
+    private _migrate(source: string): StoreMigratingResult | null {
+        const data: any = this._decode(source),
+            isEnvelope = _isEnvelope(data),
+            sourceVersion: number = isEnvelope ? data[ENVELOPE_VERSION] : 0;
+        let version = sourceVersion,
+            value: unknown = isEnvelope ? data[ENVELOPE_VALUE] : data;
+        if (version > this.version) {
+            this._migrationFailed(version, 'Unsupported version', source);
+            return null;
+        }
+        for (; version < this.version; version++) {
+            const migration = this.migrations[version];
+            try {
+                if (!migration) {
+                    throw 'Missing migration';
+                }
+                value = migration.call(this, value);
+            } catch (error) {
+                this._migrationFailed(version, error, source);
+                return null;
+            }
+        }
+        return {
+            value,
+            migrated: sourceVersion !== version,
+            envelope: isEnvelope ? data : null,
+        };
+    }
+
+    protected _stringify(value: unknown = this._value, expirations = this._expirations) {
+        const { version } = this,
+            historyOptions = this._getHistoryOptions(),
+            history = historyOptions && historyOptions.persist ? this._history : null,
+            hasHistory = !!history && (history.undo.length > 0 || history.redo.length > 0);
+        let data = value;
+        if (version || expirations.length || hasHistory) {
+            data = {
+                [ENVELOPE_VERSION]: version,
+                [ENVELOPE_VALUE]: value,
+                [ENVELOPE_EXPIRATIONS]: expirations,
+            };
+            if (hasHistory) {
+                (data as any)[ENVELOPE_HISTORY] = history;
+            }
+        }
+        return this._encode(data);
+    }
+
+    private _saveTimer: any = null;
+    protected _clearSaveTimer() {
+        if (this._saveTimer !== null) {
+            clearTimeout(this._saveTimer);
+            this._saveTimer = null;
+        }
+    }
+
+    protected _hasUnsavedChanges() {
+        const { _oldSource } = this;
+        if (_oldSource === null) {
+            // a pending save of the initial default value has nothing to lose
+            return !_isEqual(this._value, this._getDefaultValue());
+        }
+        return _oldSource !== undefined && this._stringify() !== _oldSource;
+    }
+
+    protected _receiveConflict(newSource: StoreSource, oldSource: StoreSource) {
+        if (!this.mergeStrategy && this.onConflict) {
+            this.onConflict(newSource, oldSource);
+        } else if (this._resolve(newSource, oldSource)) { // merged if no `mergeStrategy` is given
+            this._save();
+        }
+    }
+
+    private _transacting = false;
+    private _transactionDirty = false;
+    private _transactionSets: StoreSetContext[] = [];
+
+    private _save() {
+        if (this._transacting) {
+            this._transactionDirty = true;
+            return;
+        }
+        if (this.delay) {
+            if (this._saveTimer !== null) {
+                clearTimeout(this._saveTimer);
+            }
+            this._saveTimer = setTimeout(this.save, this.delay);
+        } else {
+            this.save();
+        }
+    }
+
+    destroy() {
+        if (this._unwatch) {
+            this._unwatch();
+            this._unwatch = null;
+        }
+        if (this._saveTimer !== null) {
+            this.save();
+        }
+    }
+
+    abstract save(): boolean | Promise<boolean>;
+    abstract load(source?: StoreSource): boolean | Promise<boolean>;
+    abstract checkConflict(): boolean | Promise<boolean>;
+    abstract remove(): boolean | Promise<boolean>;
+
+    reset(selector: string | string[]) {
+        const path = _parsePath(selector, this.pathSeparator);
+        if (_testPath(this._value, path)) {
+            if (this.type) {
+                this._update(path, _copy(getTypeByPath(this.type, path, this._value).defaultValue));
+                this._callPlugins('onReset', this, path);
+                return true;
+            } else if (this.defaultValue) {
+                this._update(path, _copy(_getByPath(this.defaultValue, path)));
+                this._callPlugins('onReset', this, path);
+                return true;
+            }
+        }
+        return false;
+    }
+
+    protected _load(source: StoreSource) {
+        const loaded = this._loadSource(source);
+        if (!loaded && this._value === undefined) {
+            this._update([], this._getDefaultValue(), false);
+        }
+        this._callPlugins('afterLoad', this, loaded);
+        return loaded;
+    }
+
+    private _loadSource(source: StoreSource) {
+        const { type } = this,
+            defaultValue = this._getDefaultValue();
+        let value: any = defaultValue,
+            migrated = false,
+            normalized = false,
+            expirations: StoreExpiration[] = [],
+            history: StoreHistory = { undo: [], redo: [] };
+        if (source !== null) {
+            const migratingResult = this._migrate(source);
+            if (!migratingResult) {
+                return false;
+            }
+            ({ value, migrated } = migratingResult);
+            const { envelope } = migratingResult;
+            if (envelope) {
+                expirations = envelope[ENVELOPE_EXPIRATIONS] || [];
+                if (!migrated && envelope[ENVELOPE_HISTORY]) {
+                    history = envelope[ENVELOPE_HISTORY];
+                }
+            }
+            if (type) {
+                const normalizedValue = _normalize(type, value);
+                normalized = !_isEqual(normalizedValue, value);
+                value = normalizedValue;
+            }
+        }
+        const validatingResult = type && type.validate(value);
+        if (validatingResult && !validatingResult.valid) {
+            this._invalid(validatingResult);
+            if (this.autoFix) {
+                if (type) {
+                    if (validatingResult.paths[0].length) {
+                        validatingResult.paths.forEach(path => {
+                            if (_testTypePath(type, path, value)) {
+                                _setByPath(value, path, _copy(getTypeByPath(type, path, value).defaultValue));
+                            } else {
+                                _deleteByPath(value, path);
+                            }
+                        });
+                    } else {
+                        value = _copy(type.defaultValue);
+                    }
+                } else if (defaultValue) {
+                    if (validatingResult.paths[0].length) {
+                        validatingResult.paths.forEach(path => {
+                            if (_testPath(defaultValue, path)) {
+                                _setByPath(value, path, _getByPath(defaultValue, path));
+                            } else {
+                                _deleteByPath(value, path);
+                            }
+                        });
+                    } else {
+                        value = defaultValue;
+                    }
+                } else {
+                    return false;
+                }
+            } else {
+                return false;
+            }
+        }
+        this._oldSource = source;
+        this._expirations = expirations;
+        this._history = history;
+        this._update([], value, false);
+        if (
+            source === null ||
+            validatingResult && !validatingResult.valid ||
+            migrated ||
+            normalized
+        ) {
+            this._save();
+        }
+        this._expire();
+        return true;
+    }
+
+    get(): T;
+    get<P extends string>(path: P): [StorePathValue<T, P>] extends [never] ? unknown : StorePathValue<T, P>;
+    get(path: string | string[]): unknown;
+    get(selector?: string | string[]) {
+        this._access();
+        this._expire();
+        if (!selector) {
+            return this._value;
+        }
+        const path = _parsePath(selector, this.pathSeparator);
+        return path[0] === COMPUTED_KEY ? this._peek(path) : _getByPath(this._value, path);
+    }
+
+    set<P extends string>(
+        path: P,
+        patch: StorePathValue<T, P> | StoreUpdateCallback<StorePathValue<T, P>, this>,
+        options?: StoreSetOptions
+    ): boolean;
+    set(
+        path: string[], patch: unknown | StoreUpdateCallback<unknown, this>, options?: StoreSetOptions
+    ): boolean;
+    set(
+        selector: string | string[], patch: unknown | StoreUpdateCallback<unknown, this>, options?: StoreSetOptions
+    ) {
+        this._access();
+        const targetPath = _parsePath(selector, this.pathSeparator),
+            value = typeof patch === 'function' ?
+                (patch as StoreUpdateCallback<unknown, this>).call(this, _getByPath(this._value, targetPath)) :
+                patch;
+        return this._commit(targetPath, value, options && options.ttl, true);
+    }
+
+    private _commit(path: string[], value: unknown, ttl?: number, validating?: boolean) {
+        if (path[0] === COMPUTED_KEY) {
+            this._invalid(_createValidatingResult([
+                _createError('path', 'read-only path', undefined, value, path)
+            ]));
+            return false;
+        }
+        if (!_testParentPath(this._value, path)) {
+            this._invalid(_createValidatingResult([
+                _createError('path', 'invalid path', undefined, value, path)
+            ]));
+            return false;
+        }
+        const context: StoreSetContext = { path, value, oldValue: this._peek(path) };
+        if (this.plugins.some(plugin => !!plugin.beforeSet && plugin.beforeSet(this, context) === false)) {
+            return false;
+        }
+        const { type } = this;
+        if (type && !this._transacting && (validating || context.value !== value)) {
+            const validatingResult = _testTypePath(type, path, this._value) &&
+                getTypeByPath(type, path, this._value).validate(context.value);
+            if (!validatingResult) {
+                this._invalid(_createValidatingResult([
+                    _createError('path', 'invalid path', undefined, context.value, path)
+                ]));
+                return false;
+            } else if (!validatingResult.valid) {
+                this._invalid(validatingResult, path);
+                return false;
+            }
+        }
+        this._update(path, context.value);
+        this._expirations = this._expirations.filter(
+            expiration => !_isPathPrefix(path, expiration[0])
+        );
+        if (this.ttl > 0) {
+            this._setExpiration([], this.ttl);
+        }
+        if (ttl) {
+            this._setExpiration(path, ttl);
+        }
+        this._save();
+        if (this._transacting) {
+            this._transactionSets.push(context);
+        } else {
+            this._callPlugins('afterSet', this, context);
+        }
+        return true;
+    }
+
+    private _validateAt(path: string[], value: unknown, errors: ValidationError[]) {
+        const type = this.type!;
+        if (_testTypePath(type, path, this._value)) {
+            errors.push(..._getErrors(getTypeByPath(type, path, this._value).validate(value), path));
+        } else {
+            errors.push(_createError('path', 'invalid path', undefined, value, path));
+        }
+    }
+
+    private _mergeObject(
+        path: string[], current: {}, partial: {}, arrays: StoreArrayMergeStrategy, errors: ValidationError[]
+    ) {
+        const { type } = this,
+            validating = type && !this._transacting,
+            result = _Object.assign({}, current) as any;
+        _Object.keys(partial).forEach(key => {
+            const keyPath = path.concat(key),
+                newValue = (partial as any)[key],
+                oldValue = result[key];
+            if (validating && !_testTypePath(type!, keyPath, this._value)) {
+                errors.push(_createError('unknownKey', `unknown key "${key}"`, undefined, newValue, keyPath));
+            } else if (_isPlainObject(newValue) && _isPlainObject(oldValue)) {
+                result[key] = this._mergeObject(keyPath, oldValue, newValue, arrays, errors);
+            } else if (arrays === 'concat' && Array.isArray(newValue) && Array.isArray(oldValue)) {
+                if (validating) {
+                    newValue.forEach((element, i) => {
+                        this._validateAt(keyPath.concat('' + (oldValue.length + i)), element, errors);
+                    });
+                }
+                result[key] = oldValue.concat(newValue);
+            } else {
+                if (validating) {
+                    this._validateAt(keyPath, newValue, errors);
+                }
+                result[key] = newValue;
+            }
+        });
+        return result;
+    }
+
+    merge(selector: string | string[], partial: {}, options?: StoreMergeOptions) {
+        this._access();
+        const path = selector ? _parsePath(selector, this.pathSeparator) : [],
+            current = _testPath(this._value, path) ? _getByPath(this._value, path) : undefined;
+        if (!_isPlainObject(current)) {
+            this._invalid(_createValidatingResult([
+                _createError('type', 'expected object', 'object', current, path)
+            ]));
+            return false;
+        }
+        const errors = new Array<ValidationError>(),
+            value = this._mergeObject(
+                path, current, partial, (options && options.arrays) || 'replace', errors
+            );
+        if (errors.length) {
+            this._invalid(_createValidatingResult(errors));
+            return false;
+        }
+        return this._commit(path, value, options && options.ttl);
+    }
+
+    private _changeList(
+        selector: string | string[],
+        change: (list: unknown[]) => StoreListChange | null
+    ) {
+        this._access();
+        const path = selector ? _parsePath(selector, this.pathSeparator) : [],
+            list = _testPath(this._value, path) ? _getByPath(this._value, path) : undefined;
+        if (!Array.isArray(list)) {
+            this._invalid(_createValidatingResult([
+                _createError('type', 'expected array', 'array', list, path)
+            ]));
+            return false;
+        }
+        const result = change(list.slice());
+        if (!result) {
+            this._invalid(_createValidatingResult([
+                _createError('path', 'invalid index', undefined, undefined, path)
+            ]));
+            return false;
+        }
+        const { type } = this;
+        if (type && !this._transacting) {
+            const errors = new Array<ValidationError>();
+            result.items.forEach((item, i) => {
+                this._validateAt(path.concat('' + (result.start + i)), item, errors);
+            });
+            if (errors.length) {
+                this._invalid(_createValidatingResult(errors));
+                return false;
+            }
+        }
+        return this._commit(path, result.list);
+    }
+
+    splice(selector: string | string[], start: number, deleteCount: number, ...items: unknown[]) {
+        return this._changeList(selector, list => {
+            const { length } = list,
+                index = start < 0 ? Math.max(length + start, 0) : Math.min(start, length);
+            list.splice(index, deleteCount, ...items);
+            return { list, start: index, items };
+        });
+    }
+
+    push(selector: string | string[], ...items: unknown[]) {
+        return this._changeList(selector, list => {
+            const start = list.length;
+            list.push(...items);
+            return { list, start, items };
+        });
+    }
+
+    insert(selector: string | string[], index: number, ...items: unknown[]) {
+        return this.splice(selector, index, 0, ...items);
+    }
+
+    removeAt(selector: string | string[], index: number, count = 1) {
+        return this.splice(selector, index, count);
+    }
+
+    removeWhere(
+        selector: string | string[],
+        predicate: (this: this, element: any, index: number) => boolean
+    ) {
+        return this._changeList(selector, list => ({
+            list: list.filter((element, index) => !predicate.call(this, element, index)),
+            start: 0,
+            items: [],
+        }));
+    }
+
+    move(selector: string | string[], from: number, to: number) {
+        return this._changeList(selector, list => {
+            const { length } = list;
+            if (from < 0) {
+                from += length;
+            }
+            if (to < 0) {
+                to += length;
+            }
+            if (!(from >= 0 && from < length && to >= 0 && to < length)) {
+                return null;
+            }
+            list.splice(to, 0, list.splice(from, 1)[0]);
+            return { list, start: 0, items: [] };
+        });
+    }
+
+    transaction(fn: (this: this, store: this) => void) {
+        if (this._transacting) {
+            fn.call(this, this);
+            return true;
+        }
+        const { _value, _expirations, _history } = this;
+        this._value = this._snapshot(_value);
+        this._expirations = _expirations.slice();
+        this._history = { undo: _history.undo.slice(), redo: _history.redo.slice() };
+        this._historyEntry = null;
+        this._transacting = true;
+        this._transactionDirty = false;
+        this._transactionSets = [];
+        const rollback = () => {
+            this._value = _value;
+            this._expirations = _expirations;
+            this._history = _history;
+            this._transactionSets = [];
+            this._invalidate([]);
+        };
+        try {
+            fn.call(this, this);
+        } catch (error) {
+            this._transacting = false;
+            this._historyEntry = null;
+            rollback();
+            throw error;
+        }
+        this._transacting = false;
+        this._historyEntry = null;
+        const { type } = this,
+            validatingResult = type && type.validate(this._value);
+        if (validatingResult && !validatingResult.valid) {
+            rollback();
+            this._invalid(validatingResult);
+            return false;
+        }
+        if (this._transactionDirty) {
+            this._save();
+        }
+        const transactionSets = this._transactionSets;
+        this._transactionSets = [];
+        transactionSets.forEach(context => {
+            this._callPlugins('afterSet', this, context);
+        });
+        return true;
+    }
+
+    private _proxies = new WeakSet<object>();
+
+    private _isProxiable(value: unknown): value is {} {
+        return _isPlainObject(value) || Array.isArray(value);
+    }
+
+    private _createProxy(path: string[], target: {}) {
+        let rejected = false;
+        const isArray = Array.isArray(target),
+            children = new Map<PropertyKey, any>(),
+            commit = (commitPath: string[], value: unknown) => {
+                rejected = !this._commit(commitPath, value, undefined, true);
+                return !rejected;
+            },
+            resolve = () => {
+                this._access();
+                this._expire();
+                const value = this._peek(path);
+                return this._isProxiable(value) && Array.isArray(value) === isArray ? value as any : null;
+            },
+            proxy: any = new Proxy(target, {
+                get: (_, key) => {
+                    const container = resolve();
+                    if (!container) {
+                        return undefined;
+                    }
+                    if (isArray && typeof key === 'string' && ARRAY_MUTATORS.includes(key)) {
+                        return (...args: unknown[]) => {
+                            const current = resolve();
+                            if (!current) {
+                                throw new TypeError('Invalid value');
+                            }
+                            const list = current.slice(),
+                                result = list[key](...args.map(arg => (
+                                    arg && typeof arg === 'object' && this._proxies.has(arg) ? _copy(arg) : arg
+                                )));
+                            if (!commit(path, list)) {
+                                throw new TypeError('Invalid value');
+                            }
+                            return result === list ? proxy : result;
+                        };
+                    }
+                    const value = container[key];
+                    if (typeof key === 'symbol' || !this._isProxiable(value)) {
+                        return value;
+                    }
+                    let child = children.get(key);
+                    if (!child || Array.isArray(child) !== Array.isArray(value)) {
+                        child = this._createProxy(path.concat(key), Array.isArray(value) ? [] : {});
+                        children.set(key, child);
+                    }
+                    return child;
+                },
+                set: (_, key, value) => {
+                    const container = resolve();
+                    if (typeof key === 'symbol') {
+                        return false;
+                    }
+                    if (container && key in container && container[key] === value) {
+                        return true;
+                    }
+                    if (value && typeof value === 'object' && this._proxies.has(value)) {
+                        value = _copy(value);
+                    }
+                    if (isArray && container) {
+                        if (key === 'length' && rejected && value > container.length) {
+                            return false;
+                        }
+                        const list = container.slice();
+                        list[key] = value;
+                        return commit(path, Array.from(list));
+                    }
+                    return commit(path.concat(key), value);
+                },
+                deleteProperty: (_, key) => {
+                    const container = resolve();
+                    if (container && typeof key === 'string' && key in container) {
+                        if (isArray) {
+                            if (key === 'length') {
+                                return false;
+                            }
+                            const list = container.slice();
+                            list.splice(+key, 1);
+                            return commit(path, list);
+                        }
+                        const copy = _Object.assign({}, container);
+                        delete copy[key];
+                        return commit(path, copy);
+                    }
+                    return true;
+                },
+                has: (_, key) => {
+                    const container = resolve();
+                    return container ? key in container : false;
+                },
+                ownKeys: _ => {
+                    const container = resolve();
+                    return Reflect.ownKeys(container || target);
+                },
+                getOwnPropertyDescriptor: (_, key) => {
+                    const container = resolve(),
+                        descriptor = container && Reflect.getOwnPropertyDescriptor(container, key);
+                    if (!descriptor) {
+                        return Reflect.getOwnPropertyDescriptor(target, key);
+                    }
+                    return {
+                        value: proxy[key],
+                        writable: true,
+                        enumerable: descriptor.enumerable,
+                        configurable: !(isArray && key === 'length'),
+                    };
+                },
+                defineProperty: () => false,
+            });
+        this._proxies.add(proxy);
+        return proxy;
+    }
+
+    proxy(): T {
+        this._access();
+        const value = this._value;
+        if (!this._isProxiable(value)) {
+            throw 'Unsupported value';
+        }
+        return this._createProxy([], Array.isArray(value) ? [] : {});
+    }
+
+    private _derivations: StoreDerivationRecord[] = [];
+
+    private _compute(derivation: StoreDerivationRecord) {
+        if (derivation.dirty) {
+            if (derivation.computing) {
+                throw 'Circular derivation';
+            }
+            derivation.computing = true;
+            try {
+                derivation.value = derivation.compute();
+                derivation.dirty = false;
+            } finally {
+                derivation.computing = false;
+            }
+        }
+        return derivation.value;
+    }
+
+    private _invalidate(path: string[]) {
+        this._derivations.forEach(derivation => {
+            if (
+                !derivation.dirty &&
+                derivation.paths.some(dependency => _isPathPrefix(path, dependency) || _isPathPrefix(dependency, path))
+            ) {
+                derivation.dirty = true;
+                if (derivation.name !== null) {
+                    this._invalidate([COMPUTED_KEY, derivation.name]);
+                }
+            }
+        });
+    }
+
+    derive<V>(
+        selectors: (string | string[])[],
+        fn: (this: this, ...values: any[]) => V,
+        name: string | null = null
+    ): StoreDerivation<V> {
+        const derivations = this._derivations;
+        if (name !== null && derivations.some(record => record.name === name)) {
+            throw 'Duplicate derivation name';
+        }
+        const paths = selectors.map(selector => selector ? _parsePath(selector, this.pathSeparator) : []),
+            derivation: StoreDerivationRecord = {
+                name,
+                paths,
+                compute: () => fn.apply(this, paths.map(path => this._peek(path))),
+                value: undefined,
+                dirty: true,
+                computing: false,
+            };
+        derivations.push(derivation);
+        return {
+            name,
+            paths,
+            get: () => {
+                this._access();
+                this._expire();
+                return this._compute(derivation) as V;
+            },
+            dispose: () => {
+                const index = this._derivations.indexOf(derivation);
+                if (~index) {
+                    this._derivations.splice(index, 1);
+                    if (name !== null) {
+                        this._invalidate([COMPUTED_KEY, name]);
+                    }
+                }
+            },
+        };
+    }
+
+    subscribe<P extends string>(path: P, listener: StoreListener<T, StorePathValue<T, P>, this>): () => void;
+    subscribe(path: string | string[], listener: StoreListener<T, unknown, this>): () => void;
+    subscribe(selector: string | string[], listener: StoreListener<T, any, this>) {
+        const subscription: StoreSubscription = {
+            path: selector ? _parsePath(selector, this.pathSeparator) : [],
+            listener,
+            oldValue: undefined,
+        };
+        if (this._notifying) {
+            subscription.oldValue = this._snapshot(this._peek(subscription.path));
+        }
+        this._subscriptions.push(subscription);
+        return () => {
+            const subscriptions = this._subscriptions,
+                index = subscriptions.indexOf(subscription);
+            if (~index) {
+                subscriptions.splice(index, 1);
+            }
+        };
+    }
+
+}
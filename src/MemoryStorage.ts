@@ -0,0 +1,58 @@
+import { StorageWatcher } from "./BaseStore";
+import { StorageLike } from "./Store";
+import { _Array } from "./utils";
+
+export class MemoryStorage implements StorageLike {
+
+    private _items = new Map<string, string>();
+    private _watchers = new Map<string, StorageWatcher[]>();
+
+    private _emit(key: string, value: string | null) {
+        const watchers = this._watchers.get(key);
+        if (watchers) {
+            watchers.slice().forEach(watcher => {
+                watcher(value);
+            });
+        }
+    }
+
+    getItem(key: string) {
+        const items = this._items;
+        return items.has(key) ? items.get(key)! : null;
+    }
+
+    setItem(key: string, value: string) {
+        this._items.set(key, value = '' + value);
+        this._emit(key, value);
+    }
+
+    removeItem(key: string) {
+        if (this._items.delete(key)) {
+            this._emit(key, null);
+        }
+    }
+
+    clear() {
+        const keys = _Array.from(this._items.keys());
+        this._items.clear();
+        keys.forEach(key => {
+            this._emit(key, null);
+        });
+    }
+
+    watch(key: string, watcher: StorageWatcher) {
+        const allWatchers = this._watchers;
+        if (!allWatchers.has(key)) {
+            allWatchers.set(key, []);
+        }
+        const watchers = allWatchers.get(key)!;
+        watchers.push(watcher);
+        return () => {
+            const index = watchers.indexOf(watcher);
+            if (~index) {
+                watchers.splice(index, 1);
+            }
+        };
+    }
+
+}
@@ -1,245 +1,519 @@
-import { Type, getTypeByPath } from "./types";
-import { _getByPath, _parsePath, _setByPath, _Object, _clone, _deleteByPath, _testTypePath, _testPath, } from "./utils";
-import { inferType } from "./inferType";
-
-export type StoreSource = string | null;
-
-export type StoreInvalidCallback<T> = (this: Store<T>, paths: string[][]) => void;
-export type StoreConflictCallback<T> =
-    (this: Store<T>, newSource: StoreSource, oldSource: StoreSource) => void;
-export type StoreUpdateCallback<T> = (this: Store<T>, value: T) => T;
+import { BaseStore, BaseStoreOptions, StoreSource, StorageWatcher, StoreExpiration } from "./BaseStore";
+import { Type } from "./types";
+import { jsonSerializer } from "./serializers";
+import { EvictionPolicy, isQuotaError } from "./eviction";
+import { getShardPaths } from "./sharding";
+import {
+    _Array, _getByPath, _setByPath, _testPath, _deleteIn, _isPathPrefix, _isEnvelope, ENVELOPE_VALUE,
+    ENVELOPE_EXPIRATIONS,
+} from "./utils";
 
 export interface StorageLike {
     getItem(key: string): string | null;
     setItem(key: string, value: string): void;
+    removeItem?(key: string): void;
+    watch?(key: string, watcher: StorageWatcher): () => void;
 }
 
-export interface StoreOptions<T> {
-    defaultValue?: T | null;
-    type?: Type<T> | null;
-    delay?: number;
+export interface StoreOptions<T> extends BaseStoreOptions<T, Store<T>> {
     storage?: StorageLike | null;
-    lazyLoad?: boolean;
-    strictLoad?: boolean;
-    secure?: boolean;
-    autoFix?: boolean;
-    onInvalid?: StoreInvalidCallback<T> | null;
-    onConflict?: StoreConflictCallback<T> | null;
-    pathSeparator?: string;
+    evictionPolicy?: EvictionPolicy | null;
+    sharded?: boolean;
 }
 
-export class Store<T = unknown> implements Required<StoreOptions<T>> {
+export class Store<T = unknown> extends BaseStore<T> implements Required<StoreOptions<T>> {
 
     static defaults: StoreOptions<any> = {
         defaultValue: null,
         delay: 100,
         storage: typeof localStorage === 'object' ? localStorage : null,
         lazyLoad: false,
+        sync: false,
         strictLoad: true,
         secure: true,
         autoFix: true,
         onInvalid: null,
         onConflict: null,
+        mergeStrategy: null,
+        onMergeConflict: null,
         pathSeparator: '.',
+        version: 0,
+        migrations: [],
+        onMigrationFailed: null,
+        onSaveError: null,
+        evictionPolicy: null,
+        sharded: false,
+        ttl: 0,
+        serializer: jsonSerializer,
+        transforms: [],
+        history: null,
+        immutable: false,
+        plugins: [],
     };
 
-    constructor(public name: string, options?: StoreOptions<T>) {
-        this.save = this.save.bind(this);
-        _Object.assign(this, Store.defaults, options);
-        if (options) {
-            const hasDefaultValue = 'defaultValue' in options;
-            if ('type' in options) {
-                if (!hasDefaultValue) {
-                    this.defaultValue = this.type!.defaultValue;
-                }
-            } else if (hasDefaultValue) {
-                this.type = inferType(this.defaultValue) as Type<T>;
-            }
-        }
+    constructor(name: string, options?: StoreOptions<T>) {
+        super(name, Store.defaults, options);
         if (!this.lazyLoad) {
             this.load();
         }
+        if (this.sync) {
+            this._watch();
+        }
     }
 
-    private _value!: T;
-    private _oldSource!: StoreSource;
-    defaultValue!: T | null;
-    type!: Type<T> | null;
-    delay!: number;
     storage!: StorageLike | null;
-    readonly lazyLoad!: boolean;
-    strictLoad!: boolean;
-    secure!: boolean;
-    autoFix!: boolean;
-    onInvalid!: StoreInvalidCallback<T> | null;
-    onConflict!: StoreConflictCallback<T> | null;
-    pathSeparator!: string;
-
-    private _getDefaultValue() {
-        const { defaultValue } = this;
-        return defaultValue && typeof defaultValue === 'object' ?
-            _clone(defaultValue) :
-            defaultValue;
-    }
-
-    private _invalid(paths: string[][]) {
-        if (this.onInvalid) {
-            this.onInvalid(paths);
-        } else if (!this.autoFix) {
-            const { pathSeparator } = this;
-            throw (
-                'Invalid value at paths: ' +
-                (paths.map(path => path.join(pathSeparator)).join(', ') || '(root)')
-            );
+    evictionPolicy!: EvictionPolicy | null;
+    readonly sharded!: boolean;
+
+    private _shardType: Type<T> | null = null;
+    private _shards = new Map<string, string[]>();
+    private _shardSources = new Map<string, StoreSource>();
+    private _dirtyShards = new Set<string>();
+
+    private _getShards() {
+        const { type } = this;
+        if (type !== this._shardType) {
+            const shards = new Map<string, string[]>();
+            if (type) {
+                getShardPaths(type).forEach(path => {
+                    shards.set(this.name + '/' + path.join(this.pathSeparator), path);
+                });
+            }
+            this._shardType = type;
+            this._shards = shards;
         }
+        return this._shards;
+    }
+
+    private _getShardSource(key: string) {
+        const source = this._shardSources.get(key);
+        return source === undefined ? null : source;
+    }
+
+    private _getShardOwner(path: string[]) {
+        let owner: string | null = null,
+            ownerDepth = -1;
+        this._getShards().forEach((shardPath, key) => {
+            if (_isPathPrefix(shardPath, path) && shardPath.length > ownerDepth) {
+                owner = key;
+                ownerDepth = shardPath.length;
+            }
+        });
+        return owner as string | null;
     }
 
-    private _conflict(newSource: StoreSource, oldSource: StoreSource) {
-        if (this.onConflict) {
-            this.onConflict(newSource, oldSource);
-        } else {
-            throw 'Sources conflicted';
+    protected _update(path: string[], value: unknown, recorded?: boolean) {
+        if (this.sharded) {
+            const dirtyShards = this._dirtyShards,
+                owner = this._getShardOwner(path);
+            this._getShards().forEach((shardPath, key) => {
+                if (_isPathPrefix(path, shardPath)) {
+                    dirtyShards.add(key);
+                }
+            });
+            if (owner !== null) {
+                dirtyShards.add(owner);
+            }
+        }
+        super._update(path, value, recorded);
+    }
+
+    private _stringifyShard(path: string[], root: unknown = this._value) {
+        let value = _testPath(root, path) ? _getByPath(root, path) : undefined;
+        if (value === undefined) {
+            return null;
         }
+        this._getShards().forEach(shardPath => {
+            if (shardPath.length > path.length && _isPathPrefix(path, shardPath)) {
+                const relativePath = shardPath.slice(path.length);
+                if (_testPath(value, relativePath)) {
+                    value = _deleteIn(value, relativePath);
+                }
+            }
+        });
+        return this._encode(value);
     }
 
-    private _saveTimer: any = null;
-    private _save() {
-        if (this.delay) {
-            if (this._saveTimer !== null) {
-                clearTimeout(this._saveTimer);
+    private _getManifestValue(value: unknown = this._value) {
+        this._getShards().forEach(path => {
+            if (path.length === 1 && value && typeof value === 'object' && path[0] in (value as any)) {
+                value = _deleteIn(value, path);
             }
-            this._saveTimer = setTimeout(this.save, this.delay);
-        } else {
-            this.save();
+        });
+        return value;
+    }
+
+    // expirations and history in the manifest are merged on write
+    // rather than conflict-checked, so only its value part is compared
+    private _encodeManifestValue(source: StoreSource) {
+        if (!source) {
+            return source;
+        }
+        const data: any = this._decode(source);
+        return this._encode(_isEnvelope(data) ? data[ENVELOPE_VALUE] : data);
+    }
+
+    private _stringifyShardValue(key: string, root: unknown = this._value) {
+        const path = this._getShards().get(key);
+        return path ? this._stringifyShard(path, root) : this._encode(this._getManifestValue(root));
+    }
+
+    // a shard never saved is compared as its default value,
+    // so defaults saved by others don't count as changes
+    private _normalizeShardSource(key: string, source: StoreSource) {
+        if (key === this.name) {
+            source = this._encodeManifestValue(source);
+        }
+        return source === null ? this._stringifyShardValue(key, this._getDefaultValue()) : source;
+    }
+
+    private _isShardChanged(key: string, source: StoreSource) {
+        return this._normalizeShardSource(key, source) !==
+            this._normalizeShardSource(key, this._getShardSource(key));
+    }
+
+    private _stringifyManifest(storage: StorageLike, writtenKeys: string[]) {
+        let expirations = this._expirations;
+        const source = storage.getItem(this.name);
+        if (source && source !== this._getShardSource(this.name)) {
+            const data: any = this._decode(source);
+            if (_isEnvelope(data)) {
+                const isForeign = (path: string[]) => {
+                    const owner = this._getShardOwner(path);
+                    return owner !== null && !writtenKeys.includes(owner);
+                },
+                    theirExpirations: StoreExpiration[] = data[ENVELOPE_EXPIRATIONS] || [],
+                    ourRoot = expirations.find(expiration => !expiration[0].length),
+                    theirRoot = theirExpirations.find(expiration => !expiration[0].length);
+                expirations = expirations.filter(expiration => expiration[0].length && !isForeign(expiration[0]))
+                    .concat(theirExpirations.filter(expiration => isForeign(expiration[0])));
+                if (ourRoot || theirRoot) {
+                    expirations.push([[], Math.max(ourRoot ? ourRoot[1] : 0, theirRoot ? theirRoot[1] : 0)]);
+                }
+            }
+        }
+        return this._stringify(this._getManifestValue(), expirations);
+    }
+
+    private _getPendingShards() {
+        const shards = this._getShards(),
+            dirtyShards = this._dirtyShards,
+            pendingShards = new Map<string, StoreSource>();
+        dirtyShards.forEach(key => {
+            const path = shards.get(key),
+                source = path ? this._stringifyShard(path) : null;
+            if (path && source !== this._getShardSource(key)) {
+                pendingShards.set(key, source);
+            } else {
+                dirtyShards.delete(key);
+            }
+        });
+        const manifestValue = this._getManifestValue();
+        if (this._encode(manifestValue) !== this._encodeManifestValue(this._getShardSource(this.name))) {
+            pendingShards.set(this.name, this._stringify(manifestValue));
+        }
+        return pendingShards;
+    }
+
+    // shards never saved but still holding their default values
+    // don't conflict with incoming sources and don't overwrite them
+    private _isUnsavedDefault(key: string) {
+        return this._getShardSource(key) === null &&
+            this._stringifyShardValue(key) === this._stringifyShardValue(key, this._getDefaultValue());
+    }
+
+    private _getUnsavedShards() {
+        const pendingShards = this._getPendingShards();
+        pendingShards.forEach((_, key) => {
+            if (this._isUnsavedDefault(key)) {
+                pendingShards.delete(key);
+            }
+        });
+        return pendingShards;
+    }
+
+    private _readShards(storage: StorageLike) {
+        const sources = new Map<string, StoreSource>();
+        sources.set(this.name, storage.getItem(this.name));
+        this._getShards().forEach((_, key) => {
+            sources.set(key, storage.getItem(key));
+        });
+        return sources;
+    }
+
+    private _assembleShards(sources: Map<string, StoreSource>): StoreSource {
+        if (_Array.from(sources.values()).every(source => source === null)) {
+            return null;
+        }
+        const manifest = sources.get(this.name);
+        let data: any = manifest ? this._decode(manifest) : {};
+        const isEnvelope = _isEnvelope(data),
+            value = isEnvelope ? data[ENVELOPE_VALUE] : data;
+        this._getShards().forEach((path, key) => {
+            const source = sources.get(key);
+            if (source && _testPath(value, path)) {
+                _setByPath(value, path, this._decode(source));
+            }
+        });
+        return this._encode(data);
+    }
+
+    protected _access() {
+        const { evictionPolicy } = this;
+        if (evictionPolicy && evictionPolicy.touch) {
+            evictionPolicy.touch(this);
+        }
+    }
+
+    private _writing = false;
+    private _receivedWhileWriting = false;
+
+    protected _hasUnsavedChanges() {
+        return this.sharded ? this._getUnsavedShards().size > 0 : super._hasUnsavedChanges();
+    }
+
+    private _receive() {
+        if (this._writing) {
+            this._receivedWhileWriting = true;
+            return;
+        }
+        const storage = this.storage!;
+        if (this.sharded) {
+            const sources = this._readShards(storage),
+                changedKeys = _Array.from(sources.keys()).filter(
+                    key => sources.get(key) !== this._getShardSource(key)
+                );
+            if (!changedKeys.length) {
+                return;
+            }
+            const pendingShards = this._getUnsavedShards();
+            if (!pendingShards.size) {
+                this.load();
+            } else if (changedKeys.some(key => pendingShards.has(key) && this._isShardChanged(key, sources.get(key)!))) {
+                this._receiveConflict(this._assembleShards(sources), this._assembleShards(this._shardSources));
+            } else if (this.save()) {
+                this.load();
+            }
+            return;
+        }
+        const newSource = storage.getItem(this.name);
+        if (newSource !== this._oldSource) {
+            if (this._hasUnsavedChanges()) {
+                this._receiveConflict(newSource, this._oldSource);
+            } else {
+                this.load();
+            }
+        }
+    }
+
+    private _watch() {
+        const { storage, name } = this,
+            receive = () => {
+                this._receive();
+            };
+        if (!storage) {
+            return;
+        }
+        if (storage.watch) {
+            if (this.sharded) {
+                const unwatchers = [name].concat(_Array.from(this._getShards().keys()))
+                    .map(key => storage.watch!(key, receive));
+                this._unwatch = () => {
+                    unwatchers.forEach(unwatch => {
+                        unwatch();
+                    });
+                };
+            } else {
+                this._unwatch = storage.watch(name, receive);
+            }
+        } else if (typeof addEventListener === 'function') {
+            const listener = (event: StorageEvent) => {
+                if (
+                    event.storageArea === storage && (
+                        event.key === name ||
+                        event.key === null ||
+                        this.sharded && event.key.startsWith(name + '/')
+                    )
+                ) {
+                    receive();
+                }
+            };
+            addEventListener('storage', listener);
+            this._unwatch = () => {
+                removeEventListener('storage', listener);
+            };
         }
     }
 
     save() {
-        if (!this.storage || this.secure && this.checkConflict()) {
+        this._clearSaveTimer();
+        this._access();
+        const { storage } = this;
+        if (!storage || this.secure && this.checkConflict()) {
             return false;
-        } else {
-            this.storage.setItem(this.name, this._oldSource = JSON.stringify(this._value));
-            return true;
+        }
+        this._callPlugins('beforeSave', this);
+        const saved = this._write(storage);
+        this._callPlugins('afterSave', this, saved);
+        return saved;
+    }
+
+    private _write(storage: StorageLike) {
+        this._writing = true;
+        try {
+            return this._writeSources(storage);
+        } finally {
+            this._writing = false;
+            if (this._receivedWhileWriting) {
+                this._receivedWhileWriting = false;
+                this._receive();
+            }
         }
     }
 
-    reset(selector: string | string[]) {
-        const path = _parsePath(selector, this.pathSeparator);
-        if (_testPath(this._value, path)) {
-            if (this.type) {
-                if (path.length) {
-                    _setByPath(this._value, path, getTypeByPath(this.type, path).defaultValue);
+    private _writeSources(storage: StorageLike) {
+        const { evictionPolicy, sharded } = this;
+        for (; ;) {
+            let source: string,
+                shardSources: Map<string, StoreSource>;
+            try {
+                if (sharded) {
+                    shardSources = this._stringifyShards(storage);
                 } else {
-                    this._value = this.type.defaultValue;
+                    source = this._stringify();
                 }
-                return true;
-            } else if (this.defaultValue) {
-                if (path.length) {
-                    _setByPath(this._value, path, _getByPath(this.defaultValue, path));
+            } catch (error) {
+                this._saveError(error);
+                return false;
+            }
+            const oldSource = this._oldSource;
+            try {
+                if (sharded) {
+                    this._writeShards(storage, shardSources!);
                 } else {
-                    this._value = this.defaultValue;
+                    storage.setItem(this.name, this._oldSource = source!);
                 }
                 return true;
+            } catch (error) {
+                this._oldSource = oldSource;
+                if (!(isQuotaError(error) && evictionPolicy && evictionPolicy.evict(this, error))) {
+                    this._saveError(error);
+                    return false;
+                }
             }
         }
-        return false;
     }
 
-    load(source?: string | null) {
-        if (source === undefined) {
-            if (this.storage) {
-                source = this.storage.getItem(this.name);
+    private _writeShard(storage: StorageLike, key: string, source: StoreSource) {
+        if (source === null && !storage.removeItem) {
+            return false;
+        }
+        const shardSources = this._shardSources,
+            oldSource = this._getShardSource(key);
+        shardSources.set(key, source);
+        try {
+            if (source !== null) {
+                storage.setItem(key, source);
             } else {
-                return false;
+                storage.removeItem!(key);
             }
+        } catch (error) {
+            shardSources.set(key, oldSource);
+            throw error;
         }
-        const { type } = this,
-            defaultValue = this._getDefaultValue();
-        let value = source === null ? defaultValue : JSON.parse(source);
-        const validatingResult = type && type.validate(value);
-        if (validatingResult && !validatingResult.valid) {
-            this._invalid(validatingResult.paths);
-            if (this.autoFix) {
-                if (type) {
-                    if (validatingResult.paths[0].length) {
-                        validatingResult.paths.forEach(path => {
-                            if (_testTypePath(type, path)) {
-                                _setByPath(value, path, getTypeByPath(type, path).defaultValue);
-                            } else {
-                                _deleteByPath(value, path);
-                            }
-                        });
-                    } else {
-                        value = type.defaultValue;
-                    }
-                } else if (defaultValue) {
-                    if (validatingResult.paths[0].length) {
-                        validatingResult.paths.forEach(path => {
-                            if (_testPath(defaultValue, path)) {
-                                _setByPath(value, path, _getByPath(defaultValue, path));
-                            } else {
-                                _deleteByPath(value, path);
-                            }
-                        });
-                    } else {
-                        value = defaultValue;
-                    }
-                } else {
-                    return false;
+        return true;
+    }
+
+    private _stringifyShards(storage: StorageLike) {
+        const pendingShards = this._getPendingShards(),
+            writtenKeys = _Array.from(pendingShards.keys()).filter(
+                key => key !== this.name && (pendingShards.get(key) !== null || storage.removeItem)
+            );
+        pendingShards.set(this.name, this._stringifyManifest(storage, writtenKeys));
+        return pendingShards;
+    }
+
+    private _writeShards(storage: StorageLike, sources: Map<string, StoreSource>) {
+        sources.forEach((source, key) => {
+            if (this._isUnsavedDefault(key) && storage.getItem(key) !== null) {
+                return;
+            } else if (key !== this.name) {
+                if (this._writeShard(storage, key, source)) {
+                    this._dirtyShards.delete(key);
                 }
+            } else if (source !== storage.getItem(key)) {
+                this._writeShard(storage, key, source);
             } else {
-                return false;
+                this._shardSources.set(key, source);
             }
-        }
-        this._oldSource = source;
-        this._value = value;
-        if (source === null || validatingResult && !validatingResult.valid) {
-            this._save();
-        }
-        return true;
+        });
     }
 
-    checkConflict() {
-        if (this.storage) {
-            const newSource = this.storage.getItem(this.name);
-            if (newSource !== this._oldSource) {
-                this._conflict(newSource, this._oldSource);
-                return true;
+    remove() {
+        this._clearSaveTimer();
+        const { storage } = this;
+        if (storage && storage.removeItem) {
+            this._oldSource = null;
+            storage.removeItem(this.name);
+            if (this.sharded) {
+                const shardSources = this._shardSources = new Map<string, StoreSource>();
+                shardSources.set(this.name, null);
+                this._getShards().forEach((_, key) => {
+                    storage.removeItem!(key);
+                    shardSources.set(key, null);
+                    this._dirtyShards.add(key);
+                });
             }
+            return true;
         }
         return false;
     }
 
-    get(): T;
-    get<K extends Extract<keyof T, string>>(key: K): T[K];
-    get(path: string | string[]): unknown;
-    get(selector?: string | string[]) {
-        return selector ? _getByPath(this._value, _parsePath(selector, this.pathSeparator)) : this._value;
+    load(source?: StoreSource) {
+        this._access();
+        if (source === undefined) {
+            if (!this.storage) {
+                return false;
+            } else if (this.sharded) {
+                const sources = this._readShards(this.storage),
+                    shardSources = this._shardSources;
+                this._shardSources = sources;
+                const loaded = this._load(this._assembleShards(sources));
+                if (!loaded) {
+                    this._shardSources = shardSources;
+                }
+                return loaded;
+            }
+            source = this.storage.getItem(this.name);
+        }
+        return this._load(source);
     }
 
-    set<K extends Extract<keyof T, string>>(key: K, patch: T[K] | StoreUpdateCallback<T[K]>): boolean;
-    set(path: string | string[], patch: unknown | StoreUpdateCallback<unknown>): boolean;
-    set(selector: string | string[], patch: unknown | StoreUpdateCallback<unknown>) {
-        const targetPath = _parsePath(selector, this.pathSeparator),
-            value = typeof patch === 'function' ?
-                (patch as StoreUpdateCallback<T>).call(this, _getByPath(this._value, targetPath) as T) :
-                patch;
-        const { type } = this;
-        if (type) {
-            const validatingResult = _testTypePath(type, targetPath) &&
-                getTypeByPath(type, targetPath).validate(value);
-            if (!validatingResult || !validatingResult.valid) {
-                this._invalid(
-                    validatingResult ?
-                        validatingResult.paths.map(path => targetPath.concat(path)) :
-                        [targetPath]
+    checkConflict() {
+        const { storage } = this;
+        if (storage && this.sharded) {
+            let pendingShards: Map<string, StoreSource>;
+            try {
+                pendingShards = this._getUnsavedShards();
+            } catch (error) {
+                return false; // serialization errors are reported on saving
+            }
+            const conflicted = _Array.from(pendingShards.keys()).some(
+                key => this._isShardChanged(key, storage.getItem(key))
+            );
+            if (conflicted) {
+                return !this._conflict(
+                    this._assembleShards(this._readShards(storage)),
+                    this._assembleShards(this._shardSources)
                 );
-                return false;
+            }
+        } else if (storage) {
+            const newSource = storage.getItem(this.name);
+            if (newSource !== this._oldSource) {
+                return !this._conflict(newSource, this._oldSource);
             }
         }
-        _setByPath(this._value, targetPath, value);
-        this._save();
-        return true;
+        return false;
     }
 
 }
@@ -0,0 +1,160 @@
+import { Store, StoreOptions } from "./Store";
+import { ValidationError } from "./types";
+import { _Object, _Array, _hash, _normalize, _getErrors, _createError } from "./utils";
+
+export interface StoreRegistryOptions {
+    prefix?: string;
+    storeOptions?: StoreOptions<any>;
+}
+
+export interface StoreExportEntry {
+    version: number;
+    data: unknown;
+}
+
+export interface StoreExportDocument {
+    stores: { [name: string]: StoreExportEntry; };
+    checksum: string;
+}
+
+export interface StoreImportFailure {
+    name: string;
+    errors: ValidationError[];
+}
+
+export interface StoreImportResult {
+    imported: boolean;
+    failures: StoreImportFailure[];
+}
+
+export class StoreRegistry implements Required<StoreRegistryOptions> {
+
+    static defaults: StoreRegistryOptions = {
+        prefix: '',
+        storeOptions: {},
+    };
+
+    constructor(options?: StoreRegistryOptions) {
+        _Object.assign(this, StoreRegistry.defaults, options);
+    }
+
+    readonly prefix!: string;
+    storeOptions!: StoreOptions<any>;
+
+    private _stores = new Map<string, Store<any>>();
+
+    get names() {
+        return _Array.from(this._stores.keys());
+    }
+
+    create<T = unknown>(name: string, options?: StoreOptions<T>): Store<T> {
+        const stores = this._stores;
+        if (stores.has(name)) {
+            throw 'Duplicate store name';
+        }
+        const store = new Store<T>(this.prefix + name, _Object.assign({}, this.storeOptions, options));
+        stores.set(name, store);
+        return store;
+    }
+
+    get<T = unknown>(name: string) {
+        return (this._stores.get(name) || null) as Store<T> | null;
+    }
+
+    delete(name: string) {
+        const store = this._stores.get(name);
+        if (store) {
+            store.destroy();
+            this._stores.delete(name);
+        }
+        return !!store;
+    }
+
+    clearAll() {
+        const failures = new _Array<string>();
+        this._stores.forEach((store, name) => {
+            store.reset([]);
+            store.clearHistory();
+            if (!store.remove()) {
+                failures.push(name);
+            }
+        });
+        return failures;
+    }
+
+    private _checksum(stores: StoreExportDocument['stores']) {
+        return _hash(JSON.stringify(stores));
+    }
+
+    exportAll() {
+        const stores: StoreExportDocument['stores'] = {};
+        this._stores.forEach((store, name) => {
+            stores[name] = {
+                version: store.version,
+                data: JSON.parse(store.serializer.stringify(store.get())),
+            };
+        });
+        const document: StoreExportDocument = {
+            stores,
+            checksum: this._checksum(stores),
+        };
+        return JSON.stringify(document);
+    }
+
+    importAll(source: string): StoreImportResult {
+        const document: StoreExportDocument = JSON.parse(source);
+        if (!document || !document.stores || document.checksum !== this._checksum(document.stores)) {
+            throw 'Invalid checksum';
+        }
+        const failures = new _Array<StoreImportFailure>(),
+            values = new Map<string, unknown>();
+        _Object.keys(document.stores).forEach(name => {
+            const store = this._stores.get(name),
+                entry = document.stores[name],
+                fail = (code: string, message: string, actual: unknown) => {
+                    failures.push({ name, errors: [_createError(code, message, undefined, actual)] });
+                };
+            if (!store) {
+                return fail('unknownStore', `unknown store "${name}"`, name);
+            }
+            if (entry.version > store.version) {
+                return fail('version', `unsupported version ${entry.version}`, entry.version);
+            }
+            let value = store.serializer.parse(JSON.stringify(entry.data));
+            for (let version = entry.version; version < store.version; version++) {
+                const migration = store.migrations[version];
+                if (!migration) {
+                    return fail('migration', `missing migration for version ${version}`, version);
+                }
+                try {
+                    value = migration.call(store, value);
+                } catch (error) {
+                    return fail('migration', `migration for version ${version} failed`, error);
+                }
+            }
+            const { type } = store;
+            if (type) {
+                value = _normalize(type, value);
+                const errors = _getErrors(type.validate(value));
+                if (errors.length) {
+                    failures.push({ name, errors });
+                    return;
+                }
+            }
+            values.set(name, value);
+        });
+        if (failures.length) {
+            return { imported: false, failures };
+        }
+        values.forEach((value, name) => {
+            const store = this._stores.get(name)!;
+            if (!store.set([], value)) {
+                failures.push({ name, errors: [_createError('rejected', 'value rejected', undefined, value)] });
+            } else if (!store.save()) {
+                failures.push({ name, errors: [_createError('save', 'failed to save', undefined, value)] });
+            }
+        });
+        return { imported: !failures.length, failures };
+    }
+
+}
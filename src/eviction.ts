@@ -0,0 +1,72 @@
+import { Type, Dictionary, getTypeByPath } from "./types";
+import { Store } from "./Store";
+import { _Object, _Array, _isEqual } from "./utils";
+
+export interface EvictionPolicy {
+    touch?(store: Store<any>): void;
+    evict(store: Store<any>, error: unknown): boolean;
+}
+
+export const isQuotaError = (error: unknown) => {
+    if (!error || typeof error !== 'object') {
+        return false;
+    }
+    const { name, code } = error as { name?: unknown; code?: unknown; };
+    return name === 'QuotaExceededError' || name === 'NS_ERROR_DOM_QUOTA_REACHED'
+        || code === 22 || code === 1014;
+};
+
+export const lruEviction = (): EvictionPolicy => {
+    const stores = new Set<Store<any>>();
+    return {
+        touch(store) {
+            stores.delete(store);
+            stores.add(store);
+        },
+        evict(store) {
+            return _Array.from(stores).some(candidate => {
+                if (candidate !== store && candidate.storage === store.storage && candidate.remove()) {
+                    stores.delete(candidate);
+                    return true;
+                }
+                return false;
+            });
+        },
+    };
+};
+
+const _expendableTypes = new WeakSet<Type<unknown>>();
+
+export const expendable = <T extends Type<any>>(type: T) => {
+    _expendableTypes.add(type);
+    return type;
+};
+
+export const isExpendable = (type: Type<unknown>) => _expendableTypes.has(type);
+
+const _collectExpendablePaths = (type: Type<unknown>, path: string[], paths: string[][]) => {
+    if (_expendableTypes.has(type)) {
+        paths.push(path);
+    } else if (type instanceof Dictionary && type.types) {
+        _Object.entries(type.types).forEach(([key, subtype]) => {
+            _collectExpendablePaths(subtype as Type<unknown>, path.concat(key), paths);
+        });
+    }
+    return paths;
+};
+
+export const expendableEviction: EvictionPolicy = {
+    evict(store) {
+        const { type } = store;
+        if (!type) {
+            return false;
+        }
+        const paths = _collectExpendablePaths(type, [], []).filter(
+            path => !_isEqual(store.get(path), getTypeByPath(type, path).defaultValue)
+        );
+        paths.forEach(path => {
+            store.reset(path);
+        });
+        return paths.length > 0;
+    },
+};
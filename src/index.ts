@@ -1,3 +1,14 @@
+export * from "./BaseStore";
 export * from "./Store";
+export * from "./AsyncStore";
+export * from "./MemoryStorage";
+export * from "./StoreRegistry";
 export * from "./types";
 export * from "./inferType";
+export * from "./serializers";
+export * from "./transforms";
+export * from "./eviction";
+export * from "./sharding";
+export * from "./threeWayMerge";
+export * from "./jsonSchema";
+export * from "./plugins";
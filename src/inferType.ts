@@ -1,5 +1,8 @@
-import { Type, Boolean, String, Number, Nullable, Dictionary, List, Union, Any } from "./types";
-import { _Object, _Array } from "./utils";
+import {
+    Type, Boolean, String, Number, Nullable, Dictionary, List, Union, Any,
+    Date, Map, Set, BigInt
+} from "./types";
+import { _Object, _Array, _Date, _Map, _Set } from "./utils";
 
 export const inferType = (value: unknown): Type<unknown> => {
     switch (typeof value) {
@@ -9,11 +12,20 @@ export const inferType = (value: unknown): Type<unknown> => {
             return new String({ defaultValue: value });
         case 'number':
             return new Number({ defaultValue: value });
+        case 'bigint':
+            return new BigInt(value);
         case 'object':
             if (value) {
-                if (_Array.isArray(value)) {
+                if (value instanceof _Date) {
+                    return new Date(value);
+                } else if (value instanceof _Map) {
+                    return new Map({ defaultValue: value });
+                } else if (value instanceof _Set) {
+                    return new Set({ defaultValue: value });
+                } else if (_Array.isArray(value)) {
                     return new List({
-                        type: new Union({ types: value.map(inferType), defaultValue: value })
+                        type: value.length ? new Union({ types: value.map(inferType) }) : new Any(),
+                        defaultValue: value,
                     });
                 } else {
                     const types = {};
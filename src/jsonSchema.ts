@@ -0,0 +1,310 @@
+import {
+    Type, Any, Boolean, String, Number, Nullable, Dictionary, List, Union, Optional, Tuple,
+    Literal, Enumeration, Record, DiscriminatedUnion, Refinement, Transformation, LiteralValue
+} from "./types";
+import { _Object, _Array, _validateDefaultValue } from "./utils";
+
+export interface JSONSchema {
+    $schema?: string;
+    type?: string | string[];
+    default?: unknown;
+    const?: unknown;
+    enum?: unknown[];
+    minLength?: number;
+    maxLength?: number;
+    pattern?: string;
+    minimum?: number;
+    maximum?: number;
+    properties?: { [key: string]: JSONSchema; };
+    required?: string[];
+    additionalProperties?: boolean | JSONSchema;
+    items?: JSONSchema | JSONSchema[];
+    additionalItems?: boolean | JSONSchema;
+    minItems?: number;
+    maxItems?: number;
+    anyOf?: JSONSchema[];
+    oneOf?: JSONSchema[];
+    not?: JSONSchema;
+    [key: string]: unknown;
+}
+
+export const JSON_SCHEMA_DRAFT_07 = 'http://json-schema.org/draft-07/schema#';
+
+const _withDefault = (schema: JSONSchema, defaultValue: unknown) => {
+    if (defaultValue !== undefined) {
+        schema.default = defaultValue;
+    }
+    return schema;
+};
+
+const _toSchema = (type: Type<unknown>): JSONSchema => {
+    if (type instanceof Boolean) {
+        return _withDefault({ type: 'boolean' }, type.defaultValue);
+    } else if (type instanceof String) {
+        const schema: JSONSchema = { type: 'string' };
+        if (type.minLength > 0) {
+            schema.minLength = type.minLength;
+        }
+        if (type.maxLength < Infinity) {
+            schema.maxLength = type.maxLength;
+        }
+        if (type.pattern) {
+            if (type.pattern.flags.replace('u', '')) {
+                throw 'Unsupported pattern';
+            }
+            schema.pattern = type.pattern.source;
+        }
+        return _withDefault(schema, type.defaultValue);
+    } else if (type instanceof Number) {
+        const schema: JSONSchema = { type: type.integer ? 'integer' : 'number' };
+        if (type.min > -Infinity) {
+            schema.minimum = type.min;
+        }
+        if (type.max < Infinity) {
+            schema.maximum = type.max;
+        }
+        return _withDefault(schema, type.defaultValue);
+    } else if (type instanceof Nullable) {
+        return type.null ? _withDefault({ type: 'null' }, type.defaultValue) : { not: {} };
+    } else if (type instanceof Dictionary) {
+        const { types } = type,
+            schema: JSONSchema = { type: 'object' };
+        if (types) {
+            const properties: { [key: string]: JSONSchema; } = {},
+                required = new _Array<string>();
+            _Object.keys(types).forEach(key => {
+                const subtype = types[key];
+                properties[key] = _toSchema(subtype);
+                if (!subtype.validate(undefined).valid) {
+                    required.push(key);
+                }
+            });
+            schema.properties = properties;
+            if (required.length) {
+                schema.required = required;
+            }
+            schema.additionalProperties = typeof type.additional === 'boolean' ?
+                type.additional :
+                _toSchema(type.additional);
+        }
+        return _withDefault(schema, type.defaultValue);
+    } else if (type instanceof List) {
+        return _withDefault({ type: 'array', items: _toSchema(type.type) }, type.defaultValue);
+    } else if (type instanceof Tuple) {
+        const { types } = type;
+        return _withDefault({
+            type: 'array',
+            items: types.map(_toSchema),
+            additionalItems: false,
+            minItems: types.length,
+            maxItems: types.length,
+        }, type.defaultValue);
+    } else if (type instanceof Union) {
+        return _withDefault({ anyOf: type.types.map(_toSchema) }, type.defaultValue);
+    } else if (type instanceof Literal) {
+        return { const: type.value, default: type.value };
+    } else if (type instanceof Enumeration) {
+        return _withDefault({ enum: type.values.slice() }, type.defaultValue);
+    } else if (type instanceof Record) {
+        return _withDefault(
+            { type: 'object', additionalProperties: _toSchema(type.type) },
+            type.defaultValue
+        );
+    } else if (type instanceof DiscriminatedUnion) {
+        const { key, types } = type;
+        return _withDefault({
+            oneOf: _Object.keys(types).map(tag => {
+                const branch = _toSchema(types[tag]);
+                return _Object.assign({}, branch, {
+                    type: 'object',
+                    properties: _Object.assign({ [key]: { const: tag } }, branch.properties),
+                    required: [key].concat(branch.required || []),
+                });
+            }),
+        }, type.defaultValue);
+    } else if (
+        type instanceof Optional ||
+        type instanceof Refinement ||
+        type instanceof Transformation
+    ) {
+        return _toSchema(type.type);
+    } else if (type instanceof Any) {
+        return _withDefault({}, type.defaultValue);
+    }
+    return {};
+};
+
+export const toJSONSchema = (type: Type<unknown>): JSONSchema =>
+    _Object.assign({ $schema: JSON_SCHEMA_DRAFT_07 }, _toSchema(type));
+
+const _isLiteralValue = (value: unknown): value is LiteralValue =>
+    value === null || ['string', 'number', 'boolean'].includes(typeof value);
+
+const _pickOptions = <T extends {}>(options: T) => {
+    const result = {} as T;
+    _Object.keys(options).forEach(key => {
+        if (options[key as keyof T] !== undefined) {
+            result[key as keyof T] = options[key as keyof T];
+        }
+    });
+    return result;
+};
+
+const _getDefaultNumber = (schema: JSONSchema) => {
+    const { minimum, maximum } = schema;
+    let result = 0;
+    if (minimum !== undefined && result < minimum) {
+        result = minimum;
+    } else if (maximum !== undefined && result > maximum) {
+        result = maximum;
+    }
+    if (schema.type === 'integer' && result % 1 !== 0) {
+        result = minimum !== undefined && result === minimum ? Math.ceil(result) : Math.floor(result);
+    }
+    return result;
+};
+
+const _omitDefault = (schema: JSONSchema) => {
+    const result = _Object.assign({}, schema);
+    delete result.default;
+    return result;
+};
+
+const _getDiscriminator = (members: JSONSchema[]) => {
+    const [first] = members;
+    if (!first || !first.properties) {
+        return null;
+    }
+    const keys = _Object.keys(first.properties);
+    for (let i = 0; i < keys.length; i++) {
+        const key = keys[i];
+        if (members.every(member =>
+            !!member.properties &&
+            !!member.properties[key] &&
+            typeof member.properties[key].const === 'string'
+        )) {
+            return key;
+        }
+    }
+    return null;
+};
+
+export const fromJSONSchema = (schema: JSONSchema | boolean): Type<unknown> => {
+    if (typeof schema === 'boolean') {
+        if (!schema) {
+            throw 'Unsupported schema';
+        }
+        return new Any();
+    }
+    const defaultValue = schema.default,
+        hasDefaultValue = 'default' in schema;
+    if ('const' in schema) {
+        if (!_isLiteralValue(schema.const)) {
+            throw 'Unsupported schema';
+        }
+        return new Literal(schema.const);
+    }
+    if (schema.enum) {
+        if (!schema.enum.every(_isLiteralValue)) {
+            throw 'Unsupported schema';
+        }
+        return new Enumeration(schema.enum as LiteralValue[], defaultValue as LiteralValue | undefined);
+    }
+    if (schema.oneOf || schema.anyOf) {
+        const members = (schema.oneOf || schema.anyOf)!,
+            key = schema.oneOf ? _getDiscriminator(members) : null;
+        if (key) {
+            const types: { [tag: string]: Type<{}>; } = {};
+            members.forEach(member => {
+                const properties = _Object.assign({}, member.properties);
+                delete properties[key];
+                types[member.properties![key].const as string] = fromJSONSchema(
+                    _Object.assign(_omitDefault(member), {
+                        properties,
+                        required: member.required && member.required.filter(k => k !== key),
+                    })
+                ) as Type<{}>;
+            });
+            return new DiscriminatedUnion(
+                key,
+                types,
+                hasDefaultValue ? (defaultValue as any)[key] : undefined
+            );
+        }
+        return new Union(_pickOptions({
+            types: members.map(fromJSONSchema),
+            defaultValue,
+        }));
+    }
+    if (_Array.isArray(schema.type)) {
+        return new Union(_pickOptions({
+            types: schema.type.map(type => fromJSONSchema(_Object.assign(_omitDefault(schema), { type }))),
+            defaultValue,
+        }));
+    }
+    switch (schema.type) {
+        case 'boolean':
+            return new Boolean(_pickOptions({ defaultValue: defaultValue as boolean | undefined }));
+        case 'string':
+            return new String(_pickOptions({
+                defaultValue: hasDefaultValue ?
+                    defaultValue as string :
+                    ' '.repeat(schema.minLength || 0),
+                minLength: schema.minLength,
+                maxLength: schema.maxLength,
+                pattern: schema.pattern === undefined ? undefined : new RegExp(schema.pattern),
+            }));
+        case 'number':
+        case 'integer':
+            return new Number(_pickOptions({
+                defaultValue: hasDefaultValue ? defaultValue as number : _getDefaultNumber(schema),
+                min: schema.minimum,
+                max: schema.maximum,
+                integer: schema.type === 'integer',
+            }));
+        case 'null':
+            return new Nullable({ undefined: false });
+        case 'array': {
+            const { items } = schema;
+            if (_Array.isArray(items)) {
+                return new Tuple(items.map(fromJSONSchema), defaultValue as unknown[] | undefined);
+            }
+            return new List(_pickOptions({
+                type: items ? fromJSONSchema(items) : new Any(),
+                defaultValue: defaultValue as unknown[] | undefined,
+            }));
+        }
+        case 'object': {
+            const { properties, additionalProperties } = schema;
+            if (!properties && additionalProperties && typeof additionalProperties === 'object') {
+                return new Record(fromJSONSchema(additionalProperties), defaultValue as {} | undefined);
+            }
+            let type: Dictionary;
+            if (properties) {
+                const required = schema.required || [],
+                    types: { [key: string]: Type<unknown>; } = {};
+                _Object.keys(properties).forEach(key => {
+                    const subtype = fromJSONSchema(properties[key]);
+                    types[key] = required.includes(key) ? subtype : new Optional(subtype);
+                });
+                type = new Dictionary(
+                    types,
+                    additionalProperties && typeof additionalProperties === 'object' ?
+                        fromJSONSchema(additionalProperties) :
+                        additionalProperties !== false
+                );
+            } else {
+                type = new Dictionary();
+            }
+            if (hasDefaultValue) {
+                type.defaultValue = defaultValue;
+                _validateDefaultValue(type);
+            }
+            return type;
+        }
+        case undefined:
+            return new Any(defaultValue);
+        default:
+            throw 'Unsupported schema';
+    }
+};
@@ -0,0 +1,25 @@
+import { BaseStore, StorePlugin } from "./BaseStore";
+
+export interface LoggerOptions {
+    log?: (...data: unknown[]) => void;
+}
+
+export const logger = (options?: LoggerOptions): StorePlugin<BaseStore<any>> => {
+    const log = options && options.log || console.log,
+        format = (store: BaseStore<any>, path: string[]) =>
+            `[${store.name}] ${path.join(store.pathSeparator) || '(root)'}`;
+    return {
+        afterSet(store, context) {
+            log(format(store, context.path) + ' set:', context.oldValue, '->', context.value);
+        },
+        onReset(store, path) {
+            log(format(store, path) + ' reset');
+        },
+        afterLoad(store, loaded) {
+            log(`[${store.name}] ${loaded ? 'loaded' : 'failed to load'}`);
+        },
+        afterSave(store, saved) {
+            log(`[${store.name}] ${saved ? 'saved' : 'failed to save'}`);
+        },
+    };
+};
@@ -0,0 +1,67 @@
+import { _Object, _Array, _Date, _Map, _Set, _isPlainObject } from "./utils";
+
+export interface Serializer {
+    stringify(value: unknown): string;
+    parse(source: string): unknown;
+}
+
+export const jsonSerializer: Serializer = {
+    stringify: value => JSON.stringify(value),
+    parse: source => JSON.parse(source),
+};
+
+const TAG = '$type',
+    TAGGED_DATA = '$data',
+    ESCAPED_TAG = /^\$+type$/,
+    UNESCAPED_TAG = /^\$\$+type$/;
+
+const _renameKeys = (object: {}, pattern: RegExp, rename: (key: string) => string) => {
+    const keys = _Object.keys(object);
+    if (!keys.some(key => pattern.test(key))) {
+        return object;
+    }
+    const result = {} as any;
+    keys.forEach(key => {
+        result[pattern.test(key) ? rename(key) : key] = (object as any)[key];
+    });
+    return result;
+};
+
+const _tag = (type: string, data: unknown) => ({ [TAG]: type, [TAGGED_DATA]: data });
+
+export const taggedJSONSerializer: Serializer = {
+    stringify: value => JSON.stringify(value, function (this: any, key, value) {
+        const raw = this[key];
+        if (raw instanceof _Date) {
+            return _tag('Date', raw.getTime());
+        } else if (raw instanceof _Map) {
+            return _tag('Map', _Array.from(raw));
+        } else if (raw instanceof _Set) {
+            return _tag('Set', _Array.from(raw));
+        } else if (typeof raw === 'bigint') {
+            return _tag('BigInt', raw.toString());
+        } else if (_isPlainObject(value)) {
+            return _renameKeys(value, ESCAPED_TAG, key => '$' + key);
+        }
+        return value;
+    }),
+    parse: source => JSON.parse(source, (key, value) => {
+        if (!_isPlainObject(value)) {
+            return value;
+        }
+        if (typeof (value as any)[TAG] === 'string' && TAGGED_DATA in value) {
+            const data = (value as any)[TAGGED_DATA];
+            switch ((value as any)[TAG]) {
+                case 'Date':
+                    return new _Date(data === null ? NaN : data);
+                case 'Map':
+                    return new _Map(data);
+                case 'Set':
+                    return new _Set(data);
+                case 'BigInt':
+                    return BigInt(data);
+            }
+        }
+        return _renameKeys(value, UNESCAPED_TAG, key => key.slice(1));
+    }),
+};
@@ -0,0 +1,26 @@
+import { Type, Dictionary } from "./types";
+import { _Object } from "./utils";
+
+const _shardTypes = new WeakSet<Type<unknown>>();
+
+export const shard = <T extends Type<any>>(type: T) => {
+    _shardTypes.add(type);
+    return type;
+};
+
+export const isShard = (type: Type<unknown>) => _shardTypes.has(type);
+
+const _collectShardPaths = (type: Type<unknown>, path: string[], paths: string[][]) => {
+    if (type instanceof Dictionary && type.types) {
+        _Object.entries(type.types).forEach(([key, subtype]) => {
+            const subpath = path.concat(key);
+            if (!path.length || _shardTypes.has(subtype as Type<unknown>)) {
+                paths.push(subpath);
+            }
+            _collectShardPaths(subtype as Type<unknown>, subpath, paths);
+        });
+    }
+    return paths;
+};
+
+export const getShardPaths = (type: Type<unknown>) => _collectShardPaths(type, [], []);
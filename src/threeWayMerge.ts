@@ -0,0 +1,48 @@
+import { Type, Dictionary, getTypeByPath } from "./types";
+import { _Object, _Array, _isEqual, _testTypePath, _isPlainObject } from "./utils";
+
+export interface MergingResult {
+    value: unknown;
+    conflicts: string[][];
+}
+
+const _merge = (
+    base: unknown, ours: unknown, theirs: unknown,
+    type: Type<unknown> | null, path: string[], conflicts: string[][]
+): unknown => {
+    if (_isEqual(ours, theirs) || _isEqual(base, theirs)) {
+        return ours;
+    }
+    if (_isEqual(base, ours)) {
+        return theirs;
+    }
+    if (
+        (!type || type instanceof Dictionary) &&
+        _isPlainObject(ours) && _isPlainObject(theirs)
+    ) {
+        const result = {} as any,
+            baseObject = _isPlainObject(base) ? base as any : {},
+            keys = new Set(_Object.keys(baseObject).concat(_Object.keys(ours), _Object.keys(theirs)));
+        keys.forEach(key => {
+            const value = _merge(
+                baseObject[key], (ours as any)[key], (theirs as any)[key],
+                type && _testTypePath(type, [key]) ? getTypeByPath(type, [key]) : null,
+                path.concat(key), conflicts
+            );
+            if (value !== undefined || key in ours && key in theirs) {
+                result[key] = value;
+            }
+        });
+        return result;
+    }
+    conflicts.push(path);
+    return ours;
+};
+
+export const threeWayMerge = (
+    base: unknown, ours: unknown, theirs: unknown, type?: Type<unknown> | null
+): MergingResult => {
+    const conflicts = new _Array<string[]>(),
+        value = _merge(base, ours, theirs, type || null, [], conflicts);
+    return { value, conflicts };
+};
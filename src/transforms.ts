@@ -0,0 +1,128 @@
+export interface SourceTransform {
+    encode(source: string): string;
+    decode(source: string): string;
+}
+
+const BITS_PER_CHAR = 15,
+    CHAR_OFFSET = 32,
+    LITERAL_CODE = 0,
+    END_CODE = 1,
+    INVALID_SOURCE = 'Invalid source';
+
+const _getCodeWidth = (dictionarySize: number) => 32 - Math.clz32(dictionarySize - 1);
+
+export const compressor: SourceTransform = {
+
+    encode(source) {
+        const dictionary = new Map<string, number>(),
+            chars = new Array<string>();
+        let dictionarySize = 2,
+            buffer = 0,
+            bufferLength = 0;
+        const write = (value: number, width: number) => {
+            for (let i = width - 1; i >= 0; i--) {
+                buffer = (buffer << 1) | ((value >> i) & 1);
+                if (++bufferLength === BITS_PER_CHAR) {
+                    chars.push(String.fromCharCode(buffer + CHAR_OFFSET));
+                    buffer = bufferLength = 0;
+                }
+            }
+        };
+        const writeCode = (code: number) => {
+            write(code, _getCodeWidth(dictionarySize));
+        };
+        let word = '';
+        for (let i = 0; i < source.length; i++) {
+            const char = source[i],
+                extendedWord = word + char;
+            if (dictionary.has(extendedWord)) {
+                word = extendedWord;
+                continue;
+            }
+            if (word) {
+                writeCode(dictionary.get(word)!);
+                dictionary.set(extendedWord, dictionarySize++);
+            }
+            if (dictionary.has(char)) {
+                word = char;
+            } else {
+                writeCode(LITERAL_CODE);
+                write(char.charCodeAt(0), 16);
+                dictionary.set(char, dictionarySize++);
+                word = '';
+            }
+        }
+        if (word) {
+            writeCode(dictionary.get(word)!);
+            dictionarySize++;
+        }
+        writeCode(END_CODE);
+        if (bufferLength) {
+            chars.push(String.fromCharCode((buffer << (BITS_PER_CHAR - bufferLength)) + CHAR_OFFSET));
+        }
+        return chars.join('');
+    },
+
+    decode(source) {
+        const dictionary = ['', ''],
+            words = new Array<string>();
+        let index = 0,
+            buffer = 0,
+            bufferLength = 0;
+        const read = (width: number) => {
+            let value = 0;
+            for (let i = 0; i < width; i++) {
+                if (!bufferLength) {
+                    if (index >= source.length) {
+                        throw INVALID_SOURCE;
+                    }
+                    buffer = source.charCodeAt(index++) - CHAR_OFFSET;
+                    bufferLength = BITS_PER_CHAR;
+                }
+                value = (value << 1) | ((buffer >> --bufferLength) & 1);
+            }
+            return value;
+        };
+        let previousWord: string | null = null;
+        for (; ;) {
+            const code = read(_getCodeWidth(dictionary.length + (previousWord === null ? 0 : 1)));
+            let word: string;
+            if (code === END_CODE) {
+                break;
+            } else if (code === LITERAL_CODE) {
+                word = String.fromCharCode(read(16));
+                if (previousWord !== null) {
+                    dictionary.push(previousWord + word);
+                }
+                dictionary.push(word);
+                previousWord = null;
+            } else {
+                if (code < dictionary.length) {
+                    word = dictionary[code];
+                } else if (code === dictionary.length && previousWord !== null) {
+                    word = previousWord + previousWord[0];
+                } else {
+                    throw INVALID_SOURCE;
+                }
+                if (previousWord !== null) {
+                    dictionary.push(previousWord + word[0]);
+                }
+                previousWord = word;
+            }
+            words.push(word);
+        }
+        return words.join('');
+    },
+
+};
+
+export interface EncryptionOptions {
+    key: string;
+    encrypt(source: string, key: string): string;
+    decrypt(source: string, key: string): string;
+}
+
+export const encryption = (options: EncryptionOptions): SourceTransform => ({
+    encode: source => options.encrypt(source, options.key),
+    decode: source => options.decrypt(source, options.key),
+});
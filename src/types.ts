@@ -1,24 +1,52 @@
 import {
     _validateDefaultValue, _createDefaultDictionary,
-    _createValidatingResult, _Object, _Array, INVALID_PATH
+    _createValidatingResult, _Object, _Array, INVALID_PATH,
+    _Date, _Map, _Set, _toBigInt, _createError, _createTypeError, _getErrors,
+    _isPlainObject, _normalize
 } from "./utils";
 
+export interface ValidationError {
+    path: string[];
+    code: string;
+    message: string;
+    expected: unknown;
+    actual: unknown;
+}
+
 export type ValidatingResult = {
     valid: true;
 } | {
     valid: false;
     paths: string[][];
+    errors?: ValidationError[];
 };
 
 export interface Type<T> {
     defaultValue: T;
     validate(value: unknown): ValidatingResult;
+    normalize?(value: unknown): unknown;
 }
 
 export type Types<T extends {}> = {
-    [K in Extract<keyof T, string>]: Type<T[K]>;
+    [K in keyof T]: Type<T[K]>;
+};
+
+export type Infer<T> = T extends Type<infer U> ? U : never;
+
+type OptionalKeys<M> = {
+    [K in keyof M]-?: undefined extends Infer<M[K]> ? K : never;
+}[keyof M];
+
+type Flatten<T> = {
+    [K in keyof T]: T[K];
 };
 
+export type InferDictionary<M extends { [key: string]: Type<any>; }> = Flatten<{
+    [K in Exclude<keyof M, OptionalKeys<M>>]: Infer<M[K]>;
+} & {
+    [K in OptionalKeys<M>]?: Infer<M[K]>;
+}>;
+
 export class Any implements Type<any>{
     constructor(defaultValue?: any) {
         this.defaultValue = defaultValue;
@@ -30,21 +58,49 @@ export class Any implements Type<any>{
 }
 export const any = (defaultValue?: any) => new Any(defaultValue);
 
-export class Boolean implements Type<boolean> {
-    constructor(public defaultValue = false) {
+export interface BooleanOptions {
+    defaultValue?: boolean;
+    coerce?: boolean;
+}
+export class Boolean implements Type<boolean>, Required<BooleanOptions> {
+    static defaults: BooleanOptions = {
+        defaultValue: false,
+        coerce: false,
+    };
+    constructor(options?: boolean | BooleanOptions) {
+        _Object.assign(
+            this,
+            Boolean.defaults,
+            typeof options === 'boolean' ? { defaultValue: options } : options
+        );
         _validateDefaultValue(this);
     }
+    defaultValue!: boolean;
+    coerce!: boolean;
     validate(value: unknown) {
-        return _createValidatingResult(typeof value === 'boolean');
+        return _createValidatingResult(
+            typeof value === 'boolean' ? [] : [_createTypeError('boolean', value)]
+        );
+    }
+    normalize(value: unknown) {
+        if (this.coerce) {
+            if (value === 'true' || value === '1' || value === 1) {
+                return true;
+            } else if (value === 'false' || value === '0' || value === 0) {
+                return false;
+            }
+        }
+        return value;
     }
 }
-export const boolean = (defaultValue?: boolean) => new Boolean(defaultValue);
+export const boolean = (options?: boolean | BooleanOptions) => new Boolean(options);
 
 export interface StringOptions {
     defaultValue?: string;
     minLength?: number;
     maxLength?: number;
     pattern?: RegExp | null;
+    coerce?: boolean;
 }
 export class String implements Type<string>, Required<StringOptions> {
     static defaults: StringOptions = {
@@ -52,6 +108,7 @@ export class String implements Type<string>, Required<StringOptions> {
         minLength: 0,
         maxLength: Infinity,
         pattern: null,
+        coerce: false,
     };
     constructor(options?: StringOptions) {
         _Object.assign(this, String.defaults, options);
@@ -61,13 +118,35 @@ export class String implements Type<string>, Required<StringOptions> {
     minLength!: number;
     maxLength!: number;
     pattern!: RegExp | null;
+    coerce!: boolean;
     validate(value: unknown) {
-        return _createValidatingResult(
-            typeof value === 'string' &&
-            value.length >= this.minLength &&
-            value.length <= this.maxLength &&
-            (!this.pattern || this.pattern.test(value))
-        );
+        const errors = new _Array<ValidationError>();
+        if (typeof value !== 'string') {
+            errors.push(_createTypeError('string', value));
+        } else {
+            const { minLength, maxLength, pattern } = this,
+                { length } = value;
+            if (length < minLength) {
+                errors.push(_createError(
+                    'minLength', `length ${length} is less than minLength ${minLength}`, minLength, value
+                ));
+            }
+            if (length > maxLength) {
+                errors.push(_createError(
+                    'maxLength', `length ${length} exceeds maxLength ${maxLength}`, maxLength, value
+                ));
+            }
+            if (pattern && !pattern.test(value)) {
+                errors.push(_createError('pattern', `did not match pattern ${pattern}`, pattern, value));
+            }
+        }
+        return _createValidatingResult(errors);
+    }
+    normalize(value: unknown) {
+        const type = typeof value;
+        return this.coerce && (type === 'number' || type === 'boolean' || type === 'bigint') ?
+            '' + value :
+            value;
     }
 }
 export const string = (options?: StringOptions) => new String(options);
@@ -77,6 +156,7 @@ export interface NumberOptions {
     min?: number;
     max?: number;
     integer?: boolean;
+    coerce?: boolean;
 }
 export class Number implements Type<number>, Required<NumberOptions> {
     static defaults: NumberOptions = {
@@ -84,6 +164,7 @@ export class Number implements Type<number>, Required<NumberOptions> {
         min: -Infinity,
         max: Infinity,
         integer: false,
+        coerce: false,
     };
     constructor(options?: NumberOptions) {
         _Object.assign(this, Number.defaults, options);
@@ -93,13 +174,34 @@ export class Number implements Type<number>, Required<NumberOptions> {
     min!: number;
     max!: number;
     integer!: boolean;
+    coerce!: boolean;
     validate(value: unknown) {
-        return _createValidatingResult(
-            typeof value === 'number' &&
-            (value as number) >= this.min &&
-            (value as number) <= this.max &&
-            (!this.integer || (value as number) % 1 === 0)
-        );
+        const errors = new _Array<ValidationError>();
+        if (typeof value !== 'number') {
+            errors.push(_createTypeError('number', value));
+        } else {
+            const { min, max } = this;
+            if (value < min) {
+                errors.push(_createError('min', `${value} is less than min ${min}`, min, value));
+            }
+            if (value > max) {
+                errors.push(_createError('max', `${value} exceeds max ${max}`, max, value));
+            }
+            if (this.integer && value % 1 !== 0) {
+                errors.push(_createError('integer', 'expected integer', true, value));
+            }
+        }
+        return _createValidatingResult(errors);
+    }
+    normalize(value: unknown) {
+        if (this.coerce) {
+            if (typeof value === 'string' && value.trim() && !isNaN(+value)) {
+                return +value;
+            } else if (typeof value === 'boolean') {
+                return +value;
+            }
+        }
+        return value;
     }
 }
 export const number = (options?: NumberOptions) => new Number(options);
@@ -131,50 +233,74 @@ export class Nullable<T extends null | undefined = null | undefined>
     null!: boolean;
     undefined!: boolean;
     validate(value: unknown) {
-        return _createValidatingResult(
-            value === null ? this.null : (value === this.undefined && this.undefined)
-        );
+        const valid = value === null ? this.null : (value === undefined && this.undefined);
+        return _createValidatingResult(valid ? [] : [
+            _createTypeError(
+                this.null ? this.undefined ? 'null or undefined' : 'null' : 'undefined',
+                value
+            )
+        ]);
     }
 }
 export const nullable = <T extends null | undefined = null | undefined>
     (options?: NullableOptions<T>) => new Nullable<T>(options);
 
 export class Dictionary<T extends {} = any> implements Type<T> {
-    constructor(public readonly types?: Types<T> | null) {
+    constructor(
+        public readonly types?: Types<T> | null,
+        public readonly additional: Type<unknown> | boolean = false
+    ) {
         this.defaultValue = types ? _createDefaultDictionary(types) : {} as T;
     }
     defaultValue: T;
     validate(value: unknown) {
-        if (value && typeof value === 'object') {
-            const { types } = this;
-            if (types) {
-                const paths = new _Array<string[]>();
-                _Object.keys(value!).forEach(key => {
-                    if (!(key in types)) {
-                        paths.push([key]);
-                    }
-                });
-                _Object.entries(types).forEach(([key, type]) => {
-                    const result = (type as Type<T[keyof T]>).validate((value as T)[key as keyof T]);
-                    if (result.valid) {
-                        return true;
-                    } else {
-                        const keySegment = [key];
-                        result.paths.forEach(path => {
-                            paths.push(keySegment.concat(path));
-                        });
-                        return false;
-                    }
-                });
-                return _createValidatingResult(!paths.length, paths);
-            } else {
-                return _createValidatingResult(true);
-            }
+        if (!value || typeof value !== 'object') {
+            return _createValidatingResult([_createTypeError('object', value)]);
         }
-        return _createValidatingResult(false);
+        const { types, additional } = this,
+            errors = new _Array<ValidationError>();
+        if (types) {
+            _Object.keys(value!).forEach(key => {
+                if (key in types) {
+                    return;
+                }
+                if (!additional) {
+                    errors.push(_createError(
+                        'unknownKey', `unknown key "${key}"`, undefined, (value as any)[key], [key]
+                    ));
+                } else if (additional !== true) {
+                    errors.push(..._getErrors(additional.validate((value as any)[key]), [key]));
+                }
+            });
+            _Object.entries(types).forEach(([key, type]) => {
+                const result = (type as Type<T[keyof T]>).validate((value as T)[key as keyof T]);
+                errors.push(..._getErrors(result, [key]));
+            });
+        }
+        return _createValidatingResult(errors);
+    }
+    normalize(value: unknown) {
+        const { types, additional } = this;
+        if (!types || !_isPlainObject(value)) {
+            return value;
+        }
+        const result = _Object.assign({}, value);
+        _Object.keys(result).forEach(key => {
+            if (key in types) {
+                (result as any)[key] = _normalize(types[key as keyof T], (result as any)[key]);
+            } else if (additional && additional !== true) {
+                (result as any)[key] = _normalize(additional, (result as any)[key]);
+            }
+        });
+        return result;
     }
 }
-export const dictionary = <T extends {} = any>(types?: Types<T> | null) => new Dictionary<T>(types);
+export const dictionary: {
+    <M extends { [key: string]: Type<any>; }>(
+        types: M, additional?: Type<unknown> | boolean
+    ): Dictionary<InferDictionary<M>>;
+    <T extends {} = any>(types?: Types<T> | null, additional?: Type<unknown> | boolean): Dictionary<T>;
+} = (types?: Types<any> | null, additional?: Type<unknown> | boolean) => new Dictionary(types, additional);
 
 export interface ListOptions<T> {
     defaultValue?: T[];
@@ -192,11 +318,18 @@ export class List<T = unknown> implements Type<T[]>, Required<ListOptions<T>>{
     defaultValue!: T[];
     type!: Type<T>;
     validate(value: unknown) {
-        const { type } = this;
-        return _createValidatingResult(
-            _Array.isArray(value) &&
-            value.every(element => type.validate(element))
-        );
+        if (!_Array.isArray(value)) {
+            return _createValidatingResult([_createTypeError('array', value)]);
+        }
+        const { type } = this,
+            errors = new _Array<ValidationError>();
+        for (let i = 0; i < value.length; i++) {
+            errors.push(..._getErrors(type.validate(value[i]), ['' + i]));
+        }
+        return _createValidatingResult(errors);
+    }
+    normalize(value: unknown) {
+        return _Array.isArray(value) ? value.map(element => _normalize(this.type, element)) : value;
     }
 }
 export const list = <T = unknown>(options?: ListOptions<T>) => new List<T>(options);
@@ -216,19 +349,431 @@ export class Union<T = unknown> implements Type<T>, Required<UnionOptions<T>> {
     defaultValue!: T;
     types!: Type<T>[];
     validate(value: unknown) {
-        return _createValidatingResult(this.types.some(option => option.validate(value).valid));
+        const results = this.types.map(option => option.validate(value));
+        if (results.some(result => result.valid)) {
+            return _createValidatingResult([]);
+        }
+        let closestErrors: ValidationError[] | null = null;
+        results.forEach(result => {
+            const errors = _getErrors(result);
+            if (
+                errors.length &&
+                errors.every(error => error.path.length > 0) &&
+                (!closestErrors || errors.length < closestErrors.length)
+            ) {
+                closestErrors = errors;
+            }
+        });
+        return _createValidatingResult(closestErrors || [
+            _createError(
+                'union',
+                'did not match any member of the union',
+                results.map(result => {
+                    const errors = _getErrors(result);
+                    return errors.length ? errors[0].expected : undefined;
+                }),
+                value
+            )
+        ]);
+    }
+    normalize(value: unknown) {
+        const { types } = this;
+        if (types.some(member => member.validate(value).valid)) {
+            return value;
+        }
+        for (let i = 0; i < types.length; i++) {
+            const normalized = _normalize(types[i], value);
+            if (types[i].validate(normalized).valid) {
+                return normalized;
+            }
+        }
+        return value;
+    }
+}
+export const union: {
+    <M extends Type<any>[]>(options: UnionOptions<Infer<M[number]>> & { types: M; }): Union<Infer<M[number]>>;
+    <T = unknown>(options?: UnionOptions<T>): Union<T>;
+} = (options?: UnionOptions<any>) => new Union(options);
+
+export class Date implements Type<globalThis.Date> {
+    constructor(public defaultValue: globalThis.Date = new _Date(0)) {
+        _validateDefaultValue(this);
+    }
+    validate(value: unknown) {
+        return _createValidatingResult(
+            value instanceof _Date && value.getTime() === value.getTime() ?
+                [] :
+                [_createTypeError('valid date', value)]
+        );
     }
 }
-export const union = <T = unknown>(options?: UnionOptions<T>) => new Union<T>(options);
+export const date: (defaultValue?: globalThis.Date) => Date =
+    defaultValue => new Date(defaultValue);
 
-export const getTypeByPath = (type: Type<unknown>, path: string[]) => {
+export interface MapOptions<K, V> {
+    defaultValue?: globalThis.Map<K, V>;
+    keyType?: Type<K>;
+    valueType?: Type<V>;
+}
+export class Map<K = unknown, V = unknown>
+    implements Type<globalThis.Map<K, V>>, Required<MapOptions<K, V>> {
+    static defaults: MapOptions<unknown, unknown> = {
+        keyType: new Any(),
+        valueType: new Any(),
+    };
+    constructor(options?: MapOptions<K, V>) {
+        _Object.assign(this, Map.defaults, options);
+        if (!(options && options.defaultValue)) {
+            this.defaultValue = new _Map();
+        }
+        _validateDefaultValue(this);
+    }
+    defaultValue!: globalThis.Map<K, V>;
+    keyType!: Type<K>;
+    valueType!: Type<V>;
+    validate(value: unknown) {
+        if (!(value instanceof _Map)) {
+            return _createValidatingResult([_createTypeError('map', value)]);
+        }
+        const { keyType, valueType } = this,
+            errors = new _Array<ValidationError>();
+        value.forEach((v, k) => {
+            const keyErrors = _getErrors(keyType.validate(k)),
+                valueErrors = _getErrors(valueType.validate(v));
+            if (keyErrors.length || valueErrors.length) {
+                errors.push(_createError(
+                    'element',
+                    'invalid entry: ' + keyErrors.concat(valueErrors).map(error => error.message).join(', '),
+                    [keyType, valueType],
+                    [k, v]
+                ));
+            }
+        });
+        return _createValidatingResult(errors);
+    }
+}
+export const map = <K = unknown, V = unknown>(options?: MapOptions<K, V>) => new Map<K, V>(options);
+
+export interface SetOptions<T> {
+    defaultValue?: globalThis.Set<T>;
+    type?: Type<T>;
+}
+export class Set<T = unknown> implements Type<globalThis.Set<T>>, Required<SetOptions<T>> {
+    static defaults: SetOptions<unknown> = {
+        type: new Any(),
+    };
+    constructor(options?: SetOptions<T>) {
+        _Object.assign(this, Set.defaults, options);
+        if (!(options && options.defaultValue)) {
+            this.defaultValue = new _Set();
+        }
+        _validateDefaultValue(this);
+    }
+    defaultValue!: globalThis.Set<T>;
+    type!: Type<T>;
+    validate(value: unknown) {
+        if (!(value instanceof _Set)) {
+            return _createValidatingResult([_createTypeError('set', value)]);
+        }
+        const { type } = this,
+            errors = new _Array<ValidationError>();
+        value.forEach(element => {
+            const elementErrors = _getErrors(type.validate(element));
+            if (elementErrors.length) {
+                errors.push(_createError(
+                    'element',
+                    'invalid element: ' + elementErrors.map(error => error.message).join(', '),
+                    type,
+                    element
+                ));
+            }
+        });
+        return _createValidatingResult(errors);
+    }
+}
+export const set = <T = unknown>(options?: SetOptions<T>) => new Set<T>(options);
+
+export class BigInt implements Type<bigint> {
+    constructor(public defaultValue = _toBigInt(0)) {
+        _validateDefaultValue(this);
+    }
+    validate(value: unknown) {
+        return _createValidatingResult(
+            typeof value === 'bigint' ? [] : [_createTypeError('bigint', value)]
+        );
+    }
+}
+export const bigint = (defaultValue?: bigint) => new BigInt(defaultValue);
+
+export class Optional<T = unknown> implements Type<T | undefined> {
+    constructor(public readonly type: Type<T>) { }
+    defaultValue: T | undefined = undefined;
+    validate(value: unknown) {
+        return value === undefined ? _createValidatingResult([]) : this.type.validate(value);
+    }
+    normalize(value: unknown) {
+        return value === undefined ? value : _normalize(this.type, value);
+    }
+}
+export const optional = <T = unknown>(type: Type<T>) => new Optional<T>(type);
+
+export class Tuple<T = unknown[]> implements Type<T> {
+    constructor(public readonly types: Type<unknown>[], defaultValue?: T) {
+        this.defaultValue = defaultValue || types.map(type => type.defaultValue) as unknown as T;
+        _validateDefaultValue(this);
+    }
+    defaultValue: T;
+    validate(value: unknown) {
+        if (!_Array.isArray(value)) {
+            return _createValidatingResult([_createTypeError('array', value)]);
+        }
+        const { types } = this,
+            errors = new _Array<ValidationError>();
+        if (value.length !== types.length) {
+            errors.push(_createError(
+                'length', `expected ${types.length} elements but got ${value.length}`, types.length, value
+            ));
+        }
+        types.forEach((type, index) => {
+            if (index < value.length) {
+                errors.push(..._getErrors(type.validate(value[index]), ['' + index]));
+            }
+        });
+        return _createValidatingResult(errors);
+    }
+    normalize(value: unknown) {
+        const { types } = this;
+        return _Array.isArray(value) ?
+            value.map((element, index) => index < types.length ? _normalize(types[index], element) : element) :
+            value;
+    }
+}
+export type InferTuple<M extends Type<unknown>[]> = {
+    [K in keyof M]: Infer<M[K]>;
+};
+export const tuple = <M extends [] | Type<unknown>[]>(types: M, defaultValue?: InferTuple<M>) =>
+    new Tuple<InferTuple<M>>(types, defaultValue);
+
+export type LiteralValue = string | number | boolean | null;
+
+export class Literal<T extends LiteralValue = LiteralValue> implements Type<T> {
+    constructor(public readonly value: T) {
+        this.defaultValue = value;
+    }
+    defaultValue: T;
+    validate(value: unknown) {
+        return _createValidatingResult(value === this.value ? [] : [
+            _createError('literal', 'expected ' + JSON.stringify(this.value), this.value, value)
+        ]);
+    }
+}
+export const literal = <T extends LiteralValue>(value: T) => new Literal<T>(value);
+
+export class Enumeration<T extends LiteralValue = LiteralValue> implements Type<T> {
+    constructor(public readonly values: T[], defaultValue?: T) {
+        if (!values.length) {
+            throw 'Invalid options';
+        }
+        this.defaultValue = defaultValue === undefined ? values[0] : defaultValue;
+        _validateDefaultValue(this);
+    }
+    defaultValue: T;
+    validate(value: unknown) {
+        const { values } = this;
+        return _createValidatingResult(values.includes(value as T) ? [] : [
+            _createError(
+                'enum', 'expected one of ' + values.map(v => JSON.stringify(v)).join(', '), values, value
+            )
+        ]);
+    }
+}
+export const enumeration = <T extends LiteralValue, V extends T[] = T[]>(
+    values: V & T[], defaultValue?: V[number]
+) => new Enumeration<V[number]>(values, defaultValue);
+
+export class Record<T = unknown> implements Type<{ [key: string]: T; }> {
+    constructor(public readonly type: Type<T> = new Any(), defaultValue?: { [key: string]: T; }) {
+        this.defaultValue = defaultValue || {};
+        _validateDefaultValue(this);
+    }
+    defaultValue: { [key: string]: T; };
+    validate(value: unknown) {
+        if (!value || typeof value !== 'object' || _Array.isArray(value)) {
+            return _createValidatingResult([_createTypeError('object', value)]);
+        }
+        const { type } = this,
+            errors = new _Array<ValidationError>();
+        _Object.entries(value!).forEach(([key, v]) => {
+            errors.push(..._getErrors(type.validate(v), [key]));
+        });
+        return _createValidatingResult(errors);
+    }
+    normalize(value: unknown) {
+        if (!_isPlainObject(value)) {
+            return value;
+        }
+        const result = {} as { [key: string]: unknown; };
+        _Object.entries(value).forEach(([key, v]) => {
+            result[key] = _normalize(this.type, v);
+        });
+        return result;
+    }
+}
+export const record = <T = unknown>(type?: Type<T>, defaultValue?: { [key: string]: T; }) =>
+    new Record<T>(type, defaultValue);
+
+export class DiscriminatedUnion<T extends {} = any> implements Type<T> {
+    constructor(
+        public readonly key: string,
+        public readonly types: { [tag: string]: Type<{}>; },
+        defaultTag?: string,
+    ) {
+        const tags = _Object.keys(types);
+        this.tagType = new Enumeration(tags, defaultTag);
+        this.defaultValue = _Object.assign(
+            { [key]: this.tagType.defaultValue }, types[this.tagType.defaultValue].defaultValue
+        ) as T;
+        _validateDefaultValue(this);
+    }
+    defaultValue: T;
+    readonly tagType: Enumeration<string>;
+    validate(value: unknown) {
+        if (!value || typeof value !== 'object') {
+            return _createValidatingResult([_createTypeError('object', value)]);
+        }
+        const { key } = this,
+            tag = (value as any)[key],
+            tagErrors = _getErrors(this.tagType.validate(tag), [key]);
+        if (tagErrors.length) {
+            return _createValidatingResult(tagErrors);
+        }
+        const rest = _Object.assign({}, value);
+        delete (rest as any)[key];
+        return _createValidatingResult(_getErrors(this.types[tag].validate(rest)));
+    }
+    normalize(value: unknown) {
+        if (!_isPlainObject(value)) {
+            return value;
+        }
+        const { key } = this,
+            tag = (value as any)[key];
+        if (!this.tagType.validate(tag).valid) {
+            return value;
+        }
+        const rest = _Object.assign({}, value);
+        delete (rest as any)[key];
+        return _Object.assign({ [key]: tag }, _normalize(this.types[tag], rest));
+    }
+}
+export type InferDiscriminatedUnion<K extends string, M extends { [tag: string]: Type<{}>; }> = {
+    [Tag in Extract<keyof M, string>]: { [P in K]: Tag; } & Infer<M[Tag]>;
+}[Extract<keyof M, string>];
+export const discriminatedUnion = <K extends string, M extends { [tag: string]: Type<{}>; }>(
+    key: K, types: M, defaultTag?: Extract<keyof M, string>
+) => new DiscriminatedUnion<InferDiscriminatedUnion<K, M>>(key, types, defaultTag);
+
+export class Refinement<T = unknown> implements Type<T> {
+    constructor(
+        public readonly type: Type<T>,
+        public readonly predicate: (value: T) => boolean,
+        public readonly message = 'refinement failed',
+    ) {
+        this.defaultValue = type.defaultValue;
+        _validateDefaultValue(this);
+    }
+    defaultValue: T;
+    validate(value: unknown) {
+        const result = this.type.validate(value);
+        if (!result.valid) {
+            return result;
+        }
+        return _createValidatingResult(this.predicate(value as T) ? [] : [
+            _createError('refine', this.message, undefined, value)
+        ]);
+    }
+    normalize(value: unknown) {
+        return _normalize(this.type, value);
+    }
+}
+export const refine = <T = unknown>(type: Type<T>, predicate: (value: T) => boolean, message?: string) =>
+    new Refinement<T>(type, predicate, message);
+
+export class Transformation<T = unknown> implements Type<T> {
+    constructor(
+        public readonly type: Type<T>,
+        public readonly transform: (value: unknown) => unknown,
+    ) {
+        this.defaultValue = type.defaultValue;
+    }
+    defaultValue: T;
+    validate(value: unknown) {
+        return this.type.validate(value);
+    }
+    normalize(value: unknown) {
+        return this.transform(_normalize(this.type, value));
+    }
+}
+export const transform = <T = unknown>(type: Type<T>, fn: (value: unknown) => unknown) =>
+    new Transformation<T>(type, fn);
+
+const INDEX_PATTERN = /^\d+$/;
+
+const _getFirstSubtype = (types: Type<unknown>[], key: string, value: unknown) => {
+    for (let i = 0; i < types.length; i++) {
+        try {
+            return _getSubtype(types[i], key, value);
+        } catch (error) {
+            if (error !== INVALID_PATH) {
+                throw error;
+            }
+        }
+    }
+    throw INVALID_PATH;
+};
+
+const _getSubtype = (type: Type<unknown>, key: string, value: unknown): Type<unknown> => {
+    if (type instanceof Dictionary && type.types && key in type.types) {
+        return type.types[key];
+    } else if (type instanceof Dictionary && type.types && type.additional) {
+        return type.additional === true ? new Any() : type.additional;
+    } else if (type instanceof List && INDEX_PATTERN.test(key)) {
+        return type.type;
+    } else if (type instanceof Tuple && INDEX_PATTERN.test(key) && +key < type.types.length) {
+        return type.types[+key];
+    } else if (type instanceof Record) {
+        return type.type;
+    } else if (
+        type instanceof Optional ||
+        type instanceof Refinement ||
+        type instanceof Transformation
+    ) {
+        return _getSubtype(type.type, key, value);
+    } else if (type instanceof DiscriminatedUnion) {
+        if (key === type.key) {
+            return type.tagType;
+        }
+        const { types } = type,
+            tag = value && typeof value === 'object' ? (value as any)[type.key] : undefined;
+        return type.tagType.validate(tag).valid ?
+            _getSubtype(types[tag], key, value) :
+            _getFirstSubtype(_Object.keys(types).map(k => types[k]), key, value);
+    } else if (type instanceof Union) {
+        const members = type.types,
+            matchedMember = value === undefined ?
+                undefined :
+                members.find(member => member.validate(value).valid);
+        return matchedMember ?
+            _getSubtype(matchedMember, key, value) :
+            _getFirstSubtype(members, key, value);
+    }
+    throw INVALID_PATH;
+};
+
+export const getTypeByPath = (type: Type<unknown>, path: string[], value?: unknown) => {
     let result = type;
     path.forEach(key => {
-        if (result instanceof Dictionary && result.types && key in result.types) {
-            result = result.types[key];
-        } else {
-            throw INVALID_PATH;
-        }
+        result = _getSubtype(result, key, value);
+        value = value && typeof value === 'object' ? (value as any)[key] : undefined;
     });
     return result;
 };
@@ -1,7 +1,12 @@
-import { Type, ValidatingResult, Types, Dictionary } from "./types";
+import { Type, ValidatingResult, ValidationError, Types, getTypeByPath, Optional } from "./types";
 
 export const _Object = Object,
-    _Array = Array;
+    _Array = Array,
+    _Date = Date,
+    _Map = Map,
+    _Set = Set;
+
+export const _toBigInt = (value: string | number) => BigInt(value);
 
 export const _validateDefaultValue = (type: Type<unknown>) => {
     if (!type.validate(type.defaultValue).valid) {
@@ -9,37 +14,109 @@ export const _validateDefaultValue = (type: Type<unknown>) => {
     }
 };
 
-export const _createValidatingResult = (valid: boolean, paths?: string[][]): ValidatingResult =>
-    valid ? { valid: true } : { valid: false, paths: paths || [[]] };
+export const _createError = (
+    code: string, message: string, expected: unknown, actual: unknown, path: string[] = []
+): ValidationError => ({ path, code, message, expected, actual });
+
+export const _createTypeError = (expected: string, actual: unknown) =>
+    _createError('type', 'expected ' + expected, expected, actual);
+
+export const _createValidatingResult = (errors: ValidationError[]): ValidatingResult => {
+    if (!errors.length) {
+        return { valid: true };
+    }
+    const paths = new _Array<string[]>();
+    errors.forEach(error => {
+        if (!paths.some(path => _isEqual(path, error.path))) {
+            paths.push(error.path);
+        }
+    });
+    return { valid: false, paths, errors };
+};
+
+export const _getErrors = (result: ValidatingResult, prefix: string[] = []): ValidationError[] =>
+    result.valid ?
+        [] :
+        (
+            result.errors ||
+            result.paths.map(path => _createError('invalid', 'invalid value', null, undefined, path))
+        ).map(error => _Object.assign({}, error, { path: prefix.concat(error.path) }));
+
+export const _normalize = (type: Type<unknown>, value: unknown) =>
+    type.normalize ? type.normalize(value) : value;
+
+export const _isPlainObject = (value: unknown): value is {} => {
+    if (!value || typeof value !== 'object') {
+        return false;
+    }
+    const prototype = _Object.getPrototypeOf(value);
+    return prototype === _Object.prototype || prototype === null;
+};
 
 export const _clone = <T extends {}>(source: T, refs?: Set<object>): T => {
-    if (_Array.isArray(source)) {
-        return source.slice() as unknown as T;
+    if (source instanceof _Date) {
+        return new _Date(source.getTime()) as unknown as T;
     }
     if (!refs) {
         refs = new Set<object>();
     }
-    const result = {} as T;
-    _Object.entries(source).forEach(([key, value]) => {
-        const type = typeof value;
-        if (type === 'object') {
-            if (value !== null && refs!.has(value as object)) {
-                throw 'Circular reference';
-            } else {
-                refs!.add(value as object);
-                result[key as keyof T] = _clone(source[key as keyof T], refs);
+    if (refs.has(source)) {
+        throw 'Circular reference';
+    }
+    refs.add(source);
+    const copy = (value: unknown) =>
+        value && typeof value === 'object' ? _clone(value!, refs) : value;
+    let result: T;
+    if (_Array.isArray(source)) {
+        result = source.map(copy) as unknown as T;
+    } else if (source instanceof _Map) {
+        result = new _Map(
+            _Array.from(source, ([key, value]) => [copy(key), copy(value)] as [unknown, unknown])
+        ) as unknown as T;
+    } else if (source instanceof _Set) {
+        result = new _Set(_Array.from(source, copy)) as unknown as T;
+    } else {
+        result = {} as T;
+        _Object.entries(source).forEach(([key, value]) => {
+            if (typeof value !== 'function') {
+                result[key as keyof T] = copy(value) as T[keyof T];
             }
-        } else if (type !== 'function') {
-            result[key as keyof T] = source[key as keyof T];
-        }
-    });
+        });
+    }
+    refs.delete(source);
     return result;
 };
 
+export const _copy = <T>(value: T): T =>
+    value && typeof value === 'object' ? _clone(value!) : value;
+
+export const _isEqual = (a: unknown, b: unknown): boolean => {
+    if (a === b) {
+        return true;
+    }
+    if (!a || !b || typeof a !== 'object' || typeof b !== 'object') {
+        return a !== a && b !== b;
+    }
+    if (_Object.getPrototypeOf(a) !== _Object.getPrototypeOf(b)) {
+        return false;
+    }
+    if (a instanceof _Date) {
+        return _isEqual(a.getTime(), (b as Date).getTime());
+    }
+    if (a instanceof _Map || a instanceof _Set) {
+        return _isEqual(_Array.from(a as Iterable<unknown>), _Array.from(b as Iterable<unknown>));
+    }
+    const keys = _Object.keys(a!);
+    return keys.length === _Object.keys(b!).length &&
+        keys.every(key => key in b! && _isEqual((a as any)[key], (b as any)[key]));
+};
+
 export const _createDefaultDictionary = <T extends {}>(types: Types<T>) => {
     const result = {} as T;
     _Object.entries(types).forEach(([key, type]) => {
-        result[key as keyof T] = (type as Type<T[keyof T]>).defaultValue;
+        if (!(type instanceof Optional)) {
+            result[key as keyof T] = (type as Type<T[keyof T]>).defaultValue;
+        }
     });
     return result;
 };
@@ -92,6 +169,49 @@ export const _deleteByPath = (object: unknown, path: string[]) => {
     });
 };
 
+export const _freeze = <T>(value: T): T => {
+    if (value && typeof value === 'object' && !_Object.isFrozen(value)) {
+        _Object.freeze(value);
+        _Object.values(value!).forEach(_freeze);
+    }
+    return value;
+};
+
+const _shallowCopy = (object: object) =>
+    _Array.isArray(object) ?
+        object.slice() :
+        _Object.assign(_Object.create(_Object.getPrototypeOf(object)), object);
+
+export const _setIn = (object: unknown, path: string[], value: unknown): unknown => {
+    if (!path.length) {
+        return value;
+    }
+    if (!object || typeof object !== 'object') {
+        throw INVALID_PATH;
+    }
+    const key = path[0],
+        copy = _shallowCopy(object!);
+    copy[key] = _setIn((object as any)[key], path.slice(1), value);
+    return _Object.freeze(copy);
+};
+
+export const _deleteIn = (object: unknown, path: string[]): unknown => {
+    if (!object || typeof object !== 'object') {
+        throw INVALID_PATH;
+    }
+    const key = path[0],
+        copy = _shallowCopy(object!);
+    if (path.length > 1) {
+        copy[key] = _deleteIn((object as any)[key], path.slice(1));
+    } else {
+        delete copy[key];
+    }
+    return _Object.freeze(copy);
+};
+
+export const _isPathPrefix = (prefix: string[], path: string[]) =>
+    prefix.length <= path.length && prefix.every((key, i) => key === path[i]);
+
 export const _testPath = (object: unknown, path: string[]) => {
     let result = object;
     return !path.some(key => {
@@ -103,13 +223,46 @@ export const _testPath = (object: unknown, path: string[]) => {
     });
 };
 
-export const _testTypePath = (type: Type<unknown>, path: string[]) => {
-    let result = type;
-    return !path.some(key => {
-        if (result instanceof Dictionary && result.types && key in result.types) {
-            result = result.types[key];
-        } else {
-            return true;
+export const _testParentPath = (object: unknown, path: string[]) => {
+    if (!path.length) {
+        return true;
+    }
+    if (!_testPath(object, path)) {
+        return false;
+    }
+    const parent = _getByPath(object, path.slice(0, -1));
+    return !_Array.isArray(parent) || +path[path.length - 1] <= parent.length;
+};
+
+export const _testTypePath = (type: Type<unknown>, path: string[], value?: unknown) => {
+    try {
+        getTypeByPath(type, path, value);
+        return true;
+    } catch (error) {
+        if (error === INVALID_PATH) {
+            return false;
         }
-    });
+        throw error;
+    }
+};
+
+export const _hash = (string: string) => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < string.length; i++) {
+        hash ^= string.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(16).padStart(8, '0');
 };
+
+export const ENVELOPE_VERSION = '$version',
+    ENVELOPE_VALUE = '$value',
+    ENVELOPE_EXPIRATIONS = '$expirations',
+    ENVELOPE_HISTORY = '$history';
+
+export const COMPUTED_KEY = '$computed';
+
+export const _isEnvelope = (data: unknown): data is any =>
+    !!data && typeof data === 'object' &&
+    typeof (data as any)[ENVELOPE_VERSION] === 'number' &&
+    ENVELOPE_VALUE in (data as any);
@@ -8,7 +8,6 @@ const $ = selector => document.querySelector(selector);
 
 const output = $('#output');
 
-/** @type {HS.Store<{ version: number; str: string; n: number; }>} */
 const store = new HS.Store(STORE_NAME, {
     type: HS.dictionary({
         version: HS.number({